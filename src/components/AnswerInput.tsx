@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MathText } from "@/components/MathText";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { joinTuple, splitTuple, type AnswerOption, type AnswerType } from "@/lib/answer-types";
+
+interface AnswerInputProps {
+  answerType: AnswerType;
+  options: AnswerOption[];
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+  idPrefix: string;
+}
+
+const PLACEHOLDERS: Partial<Record<AnswerType, string>> = {
+  numeric: "e.g. 12.4",
+  expression: "e.g. 2x^2 + 3x - 1",
+  equation: "e.g. y = 2x + 1",
+  inequality: "e.g. -2 < x <= 5",
+};
+
+const INEQUALITY_SYMBOLS = ["<", "≤", ">", "≥", "∞"];
+
+/**
+ * The input that fits a question's answer type. Always reports the answer as one
+ * string, e.g. "B", "(3, -2)" or "{1, 2, 3}", so it is stored and graded like typed text.
+ */
+export const AnswerInput = ({ answerType, options, value, onChange, disabled, idPrefix }: AnswerInputProps) => {
+  switch (answerType) {
+    case "multiple_choice":
+      if (options.length === 0) break;
+      return (
+        <RadioGroup value={value} onValueChange={onChange} disabled={disabled}>
+          {options.map((option) => (
+            <div key={option.label} className="flex items-center gap-3 rounded-lg border border-border p-3">
+              <RadioGroupItem value={option.label} id={`${idPrefix}-${option.label}`} />
+              <Label htmlFor={`${idPrefix}-${option.label}`} className="font-mono font-normal">
+                <span className="font-semibold">{option.label}.</span> <MathText text={option.text} />
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case "true_false":
+      return (
+        <RadioGroup value={value} onValueChange={onChange} disabled={disabled} className="flex gap-6">
+          {["True", "False"].map((choice) => (
+            <div key={choice} className="flex items-center gap-2">
+              <RadioGroupItem value={choice} id={`${idPrefix}-${choice}`} />
+              <Label htmlFor={`${idPrefix}-${choice}`}>{choice}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+
+    case "coordinates":
+      return <TupleInput labels={["x", "y"]} value={value} onChange={onChange} disabled={disabled} />;
+
+    case "vector":
+      return <TupleInput labels={["x", "y", "z"]} optionalLast value={value} onChange={onChange} disabled={disabled} />;
+
+    case "set":
+      return <SetInput value={value} onChange={onChange} disabled={disabled} />;
+
+    case "inequality":
+      return (
+        <div className="space-y-2">
+          <Input
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={PLACEHOLDERS.inequality}
+            className="font-mono"
+            disabled={disabled}
+          />
+          <div className="flex gap-1">
+            {INEQUALITY_SYMBOLS.map((symbol) => (
+              <Button
+                key={symbol}
+                variant="outline"
+                size="sm"
+                className="font-mono"
+                onClick={() => onChange(`${value}${symbol}`)}
+                disabled={disabled}
+              >
+                {symbol}
+              </Button>
+            ))}
+          </div>
+        </div>
+      );
+  }
+
+  return (
+    <Input
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={PLACEHOLDERS[answerType] ?? "Type your answer here..."}
+      inputMode={answerType === "numeric" ? "decimal" : undefined}
+      className="font-mono"
+      disabled={disabled}
+    />
+  );
+};
+
+interface TupleInputProps {
+  labels: string[];
+  // The last component can be added or removed (vectors in 2D or 3D)
+  optionalLast?: boolean;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const TupleInput = ({ labels, optionalLast, value, onChange, disabled }: TupleInputProps) => {
+  const minimum = optionalLast ? labels.length - 1 : labels.length;
+  // Kept locally: the joined answer stays empty until every box is filled in
+  const [parts, setParts] = useState(() => splitTuple(value, minimum).slice(0, labels.length));
+
+  const update = (next: string[]) => {
+    setParts(next);
+    onChange(joinTuple(next));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 font-mono">
+      <span className="text-lg text-muted-foreground">(</span>
+      {parts.map((part, index) => (
+        <div key={labels[index]} className="flex items-center gap-2">
+          {index > 0 && <span className="text-muted-foreground">,</span>}
+          <Input
+            value={part}
+            onChange={(e) => update(parts.map((p, i) => (i === index ? e.target.value : p)))}
+            placeholder={labels[index]}
+            aria-label={labels[index]}
+            className="w-24 font-mono"
+            disabled={disabled}
+          />
+        </div>
+      ))}
+      <span className="text-lg text-muted-foreground">)</span>
+      {optionalLast && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update(parts.length < labels.length ? [...parts, ""] : parts.slice(0, minimum))}
+          disabled={disabled}
+        >
+          {parts.length < labels.length ? `Add ${labels[labels.length - 1]}` : `Remove ${labels[labels.length - 1]}`}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+interface SetInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+const SetInput = ({ value, onChange, disabled }: SetInputProps) => {
+  const elements = value.trim().replace(/^\{(.*)\}$/, "$1");
+
+  return (
+    <div className="flex items-center gap-2 font-mono">
+      <span className="text-lg text-muted-foreground">{"{"}</span>
+      <Input
+        value={elements}
+        onChange={(e) => onChange(e.target.value.trim() ? `{${e.target.value}}` : "")}
+        placeholder="e.g. 1, 2, 3"
+        className="font-mono"
+        disabled={disabled}
+      />
+      <span className="text-lg text-muted-foreground">{"}"}</span>
+    </div>
+  );
+};
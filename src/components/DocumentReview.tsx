@@ -0,0 +1,323 @@
+import { useState, useEffect } from "react";
+import { ArrowLeft, CheckCircle, Circle, AlertTriangle, Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { MathText } from "@/components/MathText";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { diffWords } from "@/lib/diff";
+
+interface Question {
+  id: string;
+  question_number: string;
+  question_text: string;
+  page_number: number | null;
+  confidence: number | null;
+  review_notes: string | null;
+  approved: boolean;
+}
+
+interface Document {
+  id: string;
+  filename: string;
+  file_url: string | null;
+  page_count: number | null;
+}
+
+// Written by process-document when a document is processed again
+interface QuestionChange {
+  type: "added" | "updated" | "removed";
+  questionId: string;
+  number: string;
+  previousNumber?: string;
+  text?: string;
+  previousText?: string;
+}
+
+interface JobResult {
+  reprocessed?: boolean;
+  changes?: QuestionChange[];
+}
+
+interface DocumentReviewProps {
+  documentId: string;
+  onBack: () => void;
+  onPublished: () => void;
+}
+
+// Below this the OCR was unsure and the question needs a careful look
+const LOW_CONFIDENCE = 0.9;
+
+export const DocumentReview = ({ documentId, onBack, onPublished }: DocumentReviewProps) => {
+  const [paper, setPaper] = useState<Document | null>(null);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [selectedQuestionId, setSelectedQuestionId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [changes, setChanges] = useState<QuestionChange[]>([]);
+  const { toast } = useToast();
+
+  const fetchReview = async () => {
+    setIsLoading(true);
+    try {
+      const [
+        { data: docData, error: docError },
+        { data: questionData, error: questionError },
+        { data: jobData, error: jobError },
+      ] = await Promise.all([
+        supabase.from("documents").select("id, filename, file_url, page_count").eq("id", documentId).single(),
+        supabase
+          .from("questions")
+          .select("id, question_number, question_text, page_number, confidence, review_notes, approved")
+          .eq("document_id", documentId)
+          .order("sort_order", { ascending: true }),
+        supabase
+          .from("processing_jobs")
+          .select("result")
+          .eq("document_id", documentId)
+          .eq("stage", "completed")
+          .order("updated_at", { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+
+      if (docError) throw docError;
+      if (questionError) throw questionError;
+      if (jobError) throw jobError;
+
+      const result = jobData?.result as JobResult | null;
+      setPaper(docData);
+      setQuestions(questionData || []);
+      setChanges(result?.reprocessed ? result.changes ?? [] : []);
+      if (questionData && questionData.length > 0) {
+        setSelectedQuestionId(questionData[0].id);
+      }
+    } catch (error) {
+      console.error("Error fetching review:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReview();
+  }, [documentId]);
+
+  const setApproved = async (questionIds: string[], approved: boolean) => {
+    const { error } = await supabase
+      .from("questions")
+      .update({ approved })
+      .in("id", questionIds);
+
+    if (error) {
+      console.error("Error updating approval:", error);
+      toast({
+        title: "Could not update question",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setQuestions((prev) => prev.map((q) => (questionIds.includes(q.id) ? { ...q, approved } : q)));
+  };
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      const { error } = await supabase
+        .from("documents")
+        .update({ status: "completed" })
+        .eq("id", documentId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Questions published!",
+        description: "Students can now answer the approved questions.",
+      });
+      onPublished();
+    } catch (error) {
+      console.error("Publish error:", error);
+      toast({
+        title: "Publish failed",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const getPageUrl = (pageNumber: number | null) => {
+    if (!paper?.file_url) return null;
+    // Images are a single page; PDFs have each page rendered during processing
+    if (!paper.file_url.toLowerCase().endsWith(".pdf")) return paper.file_url;
+    const { data } = supabase.storage
+      .from("documents")
+      .getPublicUrl(`${documentId}/pages/${pageNumber ?? 1}.png`);
+    return data.publicUrl;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 gap-4">
+        <Loader2 className="h-8 w-8 text-primary animate-spin" />
+        <p className="text-muted-foreground">Loading extracted questions...</p>
+      </div>
+    );
+  }
+
+  const selectedQuestion = questions.find((q) => q.id === selectedQuestionId);
+  const pageUrl = getPageUrl(selectedQuestion?.page_number ?? null);
+  const approvedCount = questions.filter((q) => q.approved).length;
+  const lowConfidenceCount = questions.filter((q) => q.confidence !== null && q.confidence < LOW_CONFIDENCE).length;
+  const changesById = new Map(changes.map((change) => [change.questionId, change]));
+  const questionIds = new Set(questions.map((q) => q.id));
+  // Missing questions nobody had answered were deleted; answered ones are still listed
+  const deletedChanges = changes.filter((change) => change.type === "removed" && !questionIds.has(change.questionId));
+  const confidentIds = questions
+    .filter((q) => !q.approved && (q.confidence === null || q.confidence >= LOW_CONFIDENCE))
+    .map((q) => q.id);
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+        <Button variant="ghost" onClick={onBack} className="w-fit">
+          <ArrowLeft className="h-4 w-4" />
+          Back
+        </Button>
+        <div className="flex-1">
+          <h2 className="font-semibold text-foreground truncate">{paper?.filename}</h2>
+          <p className="text-sm text-muted-foreground">
+            {approvedCount} of {questions.length} approved
+            {lowConfidenceCount > 0 && ` · ${lowConfidenceCount} need a careful look`}
+            {changes.length > 0 && ` · ${changes.length} changed since the last extraction`}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {confidentIds.length > 0 && (
+            <Button variant="outline" onClick={() => setApproved(confidentIds, true)}>
+              <CheckCircle className="h-4 w-4" />
+              Approve confident ({confidentIds.length})
+            </Button>
+          )}
+          <Button
+            onClick={handlePublish}
+            disabled={isPublishing || approvedCount < questions.length || questions.length === 0}
+            title={approvedCount < questions.length ? "Approve every question before publishing" : undefined}
+          >
+            {isPublishing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            Publish
+          </Button>
+        </div>
+      </div>
+
+      {/* Split View Container */}
+      <div className="flex gap-4 h-[calc(100vh-180px)]">
+        {/* Original Page - Left Side */}
+        <div className="w-1/2 flex-shrink-0 border rounded-xl overflow-hidden bg-muted/30 flex flex-col">
+          <div className="bg-secondary/50 px-4 py-3 border-b">
+            <h3 className="font-medium text-sm text-foreground">
+              {selectedQuestion ? `Page ${selectedQuestion.page_number ?? 1}` : "Original page"}
+            </h3>
+            <p className="text-xs text-muted-foreground mt-1">
+              Compare the extracted text with the original, especially signs and exponents
+            </p>
+          </div>
+          <div className="flex-1 overflow-auto p-4">
+            {pageUrl ? (
+              <img src={pageUrl} alt="Original page" className="w-full h-auto rounded-lg" />
+            ) : (
+              <p className="text-sm text-muted-foreground">Original page not available.</p>
+            )}
+          </div>
+        </div>
+
+        {/* Extracted Questions - Right Side */}
+        <div className="w-1/2 overflow-y-auto space-y-3 pr-2">
+          {deletedChanges.length > 0 && (
+            <div className="p-3 rounded-xl border border-dashed text-xs text-muted-foreground">
+              Not found again and removed (no student answers):{" "}
+              {deletedChanges.map((change) => change.number).join(", ")}
+            </div>
+          )}
+          {questions.map((question) => {
+            const isLowConfidence = question.confidence !== null && question.confidence < LOW_CONFIDENCE;
+            const change = changesById.get(question.id);
+            return (
+              <div
+                key={question.id}
+                onClick={() => setSelectedQuestionId(question.id)}
+                className={`p-4 rounded-xl border cursor-pointer transition-colors ${
+                  question.id === selectedQuestionId ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+                } ${isLowConfidence && !question.approved ? "bg-warning/5" : ""}`}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <span className="font-medium text-foreground">Question {question.question_number}</span>
+                  {change?.type === "added" && (
+                    <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-primary/10 text-primary">New</span>
+                  )}
+                  {change?.type === "updated" && (
+                    <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-warning/10 text-warning">
+                      Changed{change.previousNumber !== change.number && ` (was ${change.previousNumber})`}
+                    </span>
+                  )}
+                  {question.confidence !== null && (
+                    <span className={`text-xs font-medium ${isLowConfidence ? "text-warning" : "text-muted-foreground"}`}>
+                      {Math.round(question.confidence * 100)}% confident
+                    </span>
+                  )}
+                  <Button
+                    size="sm"
+                    variant={question.approved ? "outline" : "default"}
+                    className="ml-auto"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setApproved([question.id], !question.approved);
+                    }}
+                  >
+                    {question.approved ? (
+                      <>
+                        <CheckCircle className="h-4 w-4 text-success" />
+                        Approved
+                      </>
+                    ) : (
+                      <>
+                        <Circle className="h-4 w-4" />
+                        Approve
+                      </>
+                    )}
+                  </Button>
+                </div>
+                {change?.type === "updated" && change.previousText !== undefined ? (
+                  <p className="text-sm text-foreground whitespace-pre-wrap font-mono">
+                    {diffWords(change.previousText, question.question_text).map((part, index) =>
+                      part.type === "same" ? (
+                        <span key={index}>{part.text}</span>
+                      ) : part.type === "removed" ? (
+                        <del key={index} className="bg-destructive/10 text-destructive">{part.text}</del>
+                      ) : (
+                        <ins key={index} className="bg-success/10 text-success no-underline">{part.text}</ins>
+                      )
+                    )}
+                  </p>
+                ) : (
+                  <p className="text-sm text-foreground whitespace-pre-wrap font-mono">
+                    <MathText text={question.question_text} />
+                  </p>
+                )}
+                {question.review_notes && (
+                  <p className="mt-2 flex items-start gap-1 text-xs text-warning">
+                    <AlertTriangle className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                    {question.review_notes}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,64 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { Upload, FileText, Loader2, CheckCircle, AlertCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { useProcessingJob, type ProcessingJob } from "@/hooks/useProcessingJob";
+
 interface DocumentUploadProps {
-  onUploadComplete: () => void;
+  onUploadComplete: (documentId: string) => void;
+  // When set, the upload is a mark scheme for this question paper
+  paperId?: string;
 }
 
-export const DocumentUpload = ({ onUploadComplete }: DocumentUploadProps) => {
+export const DocumentUpload = ({ onUploadComplete, paperId }: DocumentUploadProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadStatus, setUploadStatus] = useState<"idle" | "uploading" | "processing" | "complete" | "error">("idle");
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [jobId, setJobId] = useState<string | null>(null);
+  const job = useProcessingJob(jobId);
   const { toast } = useToast();
   const { user } = useAuth();
 
+  // The worker runs on its own; react when it reports the job finished
+  useEffect(() => {
+    if (!job) return;
+
+    if (job.stage === "completed") {
+      const result = (job.result ?? {}) as Record<string, number>;
+      setUploadStatus("complete");
+      setIsUploading(false);
+      toast(paperId
+        ? {
+            title: "Mark scheme processed!",
+            description: `Matched ${result.matchedCount || 0} of ${result.answersCount || 0} answers to questions.`,
+          }
+        : {
+            title: "Document processed!",
+            description: `Successfully extracted ${result.questionsCount || 0} questions.`,
+          });
+
+      const timeout = setTimeout(() => {
+        onUploadComplete(job.document_id);
+      }, 1500);
+      return () => clearTimeout(timeout);
+    }
+
+    if (job.stage === "failed") {
+      setUploadStatus("error");
+      setIsUploading(false);
+      toast({
+        title: "Processing failed",
+        description: job.last_error || "Something went wrong.",
+        variant: "destructive",
+      });
+    }
+  }, [job?.stage]);
+
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(true);
@@ -66,6 +108,7 @@ export const DocumentUpload = ({ onUploadComplete }: DocumentUploadProps) => {
     }
 
     setSelectedFile(file);
+    setJobId(null);
     setUploadStatus("uploading");
     setIsUploading(true);
 
@@ -73,7 +116,13 @@ export const DocumentUpload = ({ onUploadComplete }: DocumentUploadProps) => {
       // Create document record with user_id
       const { data: docData, error: docError } = await supabase
         .from("documents")
-        .insert({ filename: file.name, status: "processing", user_id: user?.id })
+        .insert({
+          filename: file.name,
+          status: "processing",
+          user_id: user?.id,
+          kind: paperId ? "mark_scheme" : "question_paper",
+          paper_id: paperId ?? null,
+        })
         .select()
         .single();
 
@@ -92,44 +141,69 @@ export const DocumentUpload = ({ onUploadComplete }: DocumentUploadProps) => {
         .from("documents")
         .getPublicUrl(filePath);
 
-      setUploadStatus("processing");
+      // Queue the processing job; it survives this tab closing
+      const { data: jobData, error: jobError } = await supabase
+        .from("processing_jobs")
+        .insert({ document_id: docData.id, file_url: urlData.publicUrl })
+        .select()
+        .single();
 
-      // Call OCR processing function
-      const { data: processData, error: processError } = await supabase.functions.invoke(
-        "process-document",
-        {
-          body: {
-            documentId: docData.id,
-            fileUrl: urlData.publicUrl,
-            filename: file.name,
-          },
-        }
-      );
-
-      if (processError) {
-        console.error("Processing error:", processError);
-        throw new Error(processError.message || "Failed to process document");
-      }
+      if (jobError) throw jobError;
 
-      setUploadStatus("complete");
-      toast({
-        title: "Document processed!",
-        description: `Successfully extracted ${processData?.questionsCount || 0} questions.`,
+      setJobId(jobData.id);
+      setUploadStatus("processing");
+
+      // Start the worker right away instead of waiting for the next scheduled run
+      const { error: workerError } = await supabase.functions.invoke("process-document", {
+        body: { jobId: jobData.id },
       });
 
-      setTimeout(() => {
-        onUploadComplete();
-      }, 1500);
+      if (workerError) {
+        console.error("Could not start worker, job will be picked up on the next run:", workerError);
+      }
     } catch (error) {
       console.error("Upload error:", error);
       setUploadStatus("error");
+      setIsUploading(false);
       toast({
         title: "Upload failed",
         description: error instanceof Error ? error.message : "Something went wrong.",
         variant: "destructive",
       });
-    } finally {
-      setIsUploading(false);
+    }
+  };
+
+  const getJobProgressText = (job: ProcessingJob) => {
+    if (job.last_error && job.stage !== "failed") {
+      return `Retrying after an error (attempt ${job.attempts + 1} of ${job.max_attempts})...`;
+    }
+
+    switch (job.stage) {
+      case "uploaded":
+        return "Queued for processing...";
+      case "rasterizing":
+        return "Splitting document into pages...";
+      case "ocr":
+        return `Reading page ${job.current_page} of ${job.total_pages}...`;
+      case "saving":
+        return paperId ? "Matching answers to questions..." : "Saving questions...";
+      default:
+        return null;
+    }
+  };
+
+  const getJobProgressValue = (job: ProcessingJob) => {
+    switch (job.stage) {
+      case "uploaded":
+        return 5;
+      case "rasterizing":
+        return 10;
+      case "ocr":
+        return 10 + Math.round((80 * ((job.current_page ?? 1) - 1)) / (job.total_pages || 1));
+      case "saving":
+        return 95;
+      default:
+        return 100;
     }
   };
 
@@ -152,13 +226,13 @@ export const DocumentUpload = ({ onUploadComplete }: DocumentUploadProps) => {
       case "uploading":
         return "Uploading document...";
       case "processing":
-        return "Extracting math questions with AI...";
+        return paperId ? "Matching answers to questions..." : "Extracting math questions with AI...";
       case "complete":
-        return "Questions extracted successfully!";
+        return paperId ? "Mark scheme attached successfully!" : "Questions extracted successfully!";
       case "error":
         return "Failed to process document";
       default:
-        return "Drop your document here or click to browse";
+        return paperId ? "Drop the mark scheme here or click to browse" : "Drop your document here or click to browse";
     }
   };
 
@@ -208,6 +282,12 @@ export const DocumentUpload = ({ onUploadComplete }: DocumentUploadProps) => {
                 {selectedFile.name}
               </p>
             )}
+            {uploadStatus === "processing" && job && (
+              <div className="mt-4 w-64 max-w-full mx-auto space-y-2">
+                <Progress value={getJobProgressValue(job)} className="h-2" />
+                <p className="text-xs text-muted-foreground">{getJobProgressText(job)}</p>
+              </div>
+            )}
           </div>
 
           {uploadStatus === "idle" && (
@@ -0,0 +1,276 @@
+import { useState, useEffect } from "react";
+import { ChevronRight, Loader2, Check, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { MathText } from "@/components/MathText";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface GradingRun {
+  graded_by: string;
+  model: string | null;
+  prompt_version: string | null;
+  prompt: unknown;
+  raw_response: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+interface GradeChange {
+  source: "grading" | "appeal";
+  is_correct: boolean | null;
+  score: number | null;
+  max_score: number | null;
+  note: string | null;
+  created_at: string;
+}
+
+interface OpenAppeal {
+  id: string;
+  comment: string;
+  created_at: string;
+  student_answers: {
+    id: string;
+    student_answer: string;
+    is_correct: boolean | null;
+    feedback: string | null;
+    score: number | null;
+    max_score: number | null;
+    questions: {
+      question_number: string;
+      question_text: string;
+    };
+    grading_runs: GradingRun[];
+    grade_changes: GradeChange[];
+  };
+}
+
+interface GradeAppealsProps {
+  documentId: string;
+  onResolved: () => void;
+}
+
+const formatGrade = (isCorrect: boolean | null, score: number | null, maxScore: number | null) => {
+  const verdict = isCorrect === null ? "Ungraded" : isCorrect ? "Correct" : "Incorrect";
+  return score !== null && maxScore !== null ? `${verdict} · ${score}/${maxScore}` : verdict;
+};
+
+const byDate = <T extends { created_at: string }>(rows: T[]) =>
+  [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+/**
+ * Open appeals on a paper's answers for its owner to confirm or overturn, with
+ * what the grader was shown and replied for each.
+ */
+export const GradeAppeals = ({ documentId, onResolved }: GradeAppealsProps) => {
+  const [appeals, setAppeals] = useState<OpenAppeal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const { toast } = useToast();
+
+  const fetchAppeals = async () => {
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("grade_appeals")
+        .select(
+          "id, comment, created_at, student_answers!inner(id, student_answer, is_correct, feedback, score, max_score, " +
+            "questions!inner(question_number, question_text, document_id), " +
+            "grading_runs(graded_by, model, prompt_version, prompt, raw_response, error, created_at), " +
+            "grade_changes(source, is_correct, score, max_score, note, created_at))"
+        )
+        .eq("status", "open")
+        .eq("student_answers.questions.document_id", documentId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      setAppeals((data || []) as unknown as OpenAppeal[]);
+    } catch (error) {
+      console.error("Error fetching appeals:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAppeals();
+  }, [documentId]);
+
+  const handleResolve = async (appeal: OpenAppeal, overturn: boolean, isCorrect?: boolean) => {
+    const scoreText = scores[appeal.id]?.trim();
+    if (overturn && appeal.student_answers.max_score !== null && isCorrect === undefined && !scoreText) {
+      toast({
+        title: "Enter a score",
+        description: "Give the score this answer should have.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setResolvingId(appeal.id);
+    try {
+      const { error } = await supabase.rpc("resolve_grade_appeal", {
+        p_appeal_id: appeal.id,
+        p_overturn: overturn,
+        p_is_correct: isCorrect,
+        p_score: overturn && scoreText ? Number(scoreText) : undefined,
+        p_comment: comments[appeal.id]?.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      setAppeals((prev) => prev.filter((a) => a.id !== appeal.id));
+      toast({
+        title: overturn ? "Grade changed" : "Grade kept",
+        description: `Question ${appeal.student_answers.questions.question_number}`,
+      });
+      onResolved();
+    } catch (error) {
+      console.error("Resolve appeal error:", error);
+      toast({
+        title: "Couldn't resolve appeal",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (appeals.length === 0) {
+    return <p className="text-sm text-muted-foreground py-4">No open appeals on this paper.</p>;
+  }
+
+  return (
+    <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-1">
+      {appeals.map((appeal) => {
+        const answer = appeal.student_answers;
+        const isResolving = resolvingId === appeal.id;
+        const scored = answer.max_score !== null;
+
+        return (
+          <div key={appeal.id} className="rounded-lg border border-border p-4 space-y-3">
+            <div>
+              <p className="text-sm font-medium text-foreground">Question {answer.questions.question_number}</p>
+              <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+                <MathText text={answer.questions.question_text} />
+              </p>
+            </div>
+
+            <div className="text-sm space-y-1">
+              <p>
+                <span className="font-medium">Answer:</span>{" "}
+                <span className="font-mono">{answer.student_answer || "(working only)"}</span>
+              </p>
+              <p>
+                <span className="font-medium">Grade:</span> {formatGrade(answer.is_correct, answer.score, answer.max_score)}
+              </p>
+              {answer.feedback && (
+                <p>
+                  <span className="font-medium">Feedback:</span> <MathText text={answer.feedback} />
+                </p>
+              )}
+            </div>
+
+            <div className="p-3 rounded-lg bg-secondary/50 text-sm">
+              <span className="font-medium">Student's appeal:</span> {appeal.comment}
+            </div>
+
+            {/* Audit trail */}
+            {byDate(answer.grading_runs).map((run, index) => (
+              <Collapsible key={index}>
+                <CollapsibleTrigger className="group flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                  <ChevronRight className="h-3 w-3 transition-transform group-data-[state=open]:rotate-90" />
+                  Graded by {run.model ?? run.graded_by}
+                  {run.prompt_version && ` (prompt ${run.prompt_version})`} on {new Date(run.created_at).toLocaleString()}
+                  {run.error && " · failed"}
+                </CollapsibleTrigger>
+                <CollapsibleContent className="mt-2 space-y-2">
+                  {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+                  {run.prompt && (
+                    <pre className="max-h-48 overflow-auto rounded bg-muted p-2 text-xs whitespace-pre-wrap">
+                      {JSON.stringify(run.prompt, null, 2)}
+                    </pre>
+                  )}
+                  {run.raw_response && (
+                    <pre className="max-h-48 overflow-auto rounded bg-muted p-2 text-xs whitespace-pre-wrap">
+                      {run.raw_response}
+                    </pre>
+                  )}
+                </CollapsibleContent>
+              </Collapsible>
+            ))}
+
+            {answer.grade_changes.length > 1 && (
+              <ul className="text-xs text-muted-foreground space-y-0.5">
+                {byDate(answer.grade_changes).map((change, index) => (
+                  <li key={index}>
+                    {new Date(change.created_at).toLocaleDateString()}: {change.source === "grading" ? "Graded" : "Changed on appeal"}{" "}
+                    {formatGrade(change.is_correct, change.score, change.max_score)}
+                    {change.note && ` (${change.note})`}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {/* Decision */}
+            <Textarea
+              placeholder="Comment for the student (optional)"
+              value={comments[appeal.id] ?? ""}
+              onChange={(e) => setComments((prev) => ({ ...prev, [appeal.id]: e.target.value }))}
+              className="min-h-[60px] resize-none"
+              disabled={isResolving}
+            />
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" variant="outline" onClick={() => handleResolve(appeal, false)} disabled={isResolving}>
+                {isResolving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+                Keep grade
+              </Button>
+              {scored ? (
+                <>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={answer.max_score!}
+                    step="any"
+                    placeholder="New score"
+                    value={scores[appeal.id] ?? ""}
+                    onChange={(e) => setScores((prev) => ({ ...prev, [appeal.id]: e.target.value }))}
+                    className="w-28 h-9"
+                    disabled={isResolving}
+                  />
+                  <span className="text-sm text-muted-foreground">/ {answer.max_score}</span>
+                  <Button size="sm" onClick={() => handleResolve(appeal, true)} disabled={isResolving}>
+                    <RotateCcw className="h-4 w-4" />
+                    Change score
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => handleResolve(appeal, true, !answer.is_correct)}
+                  disabled={isResolving || answer.is_correct === null}
+                >
+                  <RotateCcw className="h-4 w-4" />
+                  Mark {answer.is_correct ? "incorrect" : "correct"}
+                </Button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import { Fragment, useMemo } from "react";
+import katex from "katex";
+import "katex/dist/katex.min.css";
+import { splitMath } from "@/lib/math-text";
+
+interface MathTextProps {
+  text: string;
+  className?: string;
+}
+
+/**
+ * Text with its maths typeset by KaTeX. LaTeX KaTeX cannot parse is shown as
+ * written rather than failing the whole card.
+ */
+export const MathText = ({ text, className }: MathTextProps) => {
+  const segments = useMemo(() => splitMath(text), [text]);
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) =>
+        segment.latex === null ? (
+          <Fragment key={index}>{segment.text}</Fragment>
+        ) : (
+          <span
+            key={index}
+            dangerouslySetInnerHTML={{
+              __html: katex.renderToString(segment.latex, { displayMode: segment.display, throwOnError: false }),
+            }}
+          />
+        )
+      )}
+    </span>
+  );
+};
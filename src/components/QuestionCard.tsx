@@ -1,15 +1,36 @@
 import { useState } from "react";
-import { ChevronRight, CheckCircle, XCircle, AlertCircle, Lightbulb, Loader2, Send } from "lucide-react";
+import { ChevronRight, CheckCircle, XCircle, AlertCircle, Lightbulb, Loader2, Send, ListOrdered, Plus, X, ScanText, Flag, MessageCircle, BookOpen } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { AnswerInput } from "@/components/AnswerInput";
+import { MathText } from "@/components/MathText";
+import { TutorChat } from "@/components/TutorChat";
+import { WorkingPhotos } from "@/components/WorkingPhotos";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
+import { parseAnswerOptions, parseAnswerType } from "@/lib/answer-types";
+import { scoreSummary, type RubricMark } from "@/lib/rubric";
+import { describeAppeal, latestAppeal, type GradeAppeal } from "@/lib/appeals";
+import { HINT_LEVELS, MAX_HINTS, describeHintPenalty, describePenalty, nextHintLevel } from "@/lib/hints";
+import { countAttempt, describeUnlock, NO_ATTEMPTS, solutionUnlocked, type AttemptCount, type WorkedSolution } from "@/lib/solutions";
+import { streamFunction } from "@/lib/stream";
+
 interface Question {
   id: string;
   question_number: string;
   question_text: string;
+  marks?: number | null;
+  answer_type?: string | null;
+  answer_options?: unknown;
+}
+
+interface AnswerStep {
+  step_number: number;
+  content: string;
+  is_correct: boolean | null;
 }
 
 interface StudentAnswer {
@@ -17,38 +38,137 @@ interface StudentAnswer {
   student_answer: string;
   is_correct: boolean | null;
   feedback: string | null;
+  score: number | null;
+  max_score: number | null;
+  rubric_marks: RubricMark[] | null;
+  first_wrong_step: number | null;
+  answer_steps: AnswerStep[];
+  working_transcription: string | null;
+  transcription_confirmed: boolean;
+  hints_used: number;
+  hint_penalty: number;
+  grade_appeals: GradeAppeal[];
+}
+
+// What evaluate-answer returns once grading is done
+interface EvaluationResult {
+  isCorrect: boolean | null;
+  cannotGrade: boolean;
+  feedback: string;
+  score: number | null;
+  maxScore: number | null;
+  hintsUsed: number;
+  hintPenalty: number;
+  marks: RubricMark[] | null;
+  firstWrongStep: number | null;
+  gradedBy: "checker" | "model";
+  transcription: string | null;
 }
 
 interface QuestionCardProps {
   question: Question;
   existingAnswer?: StudentAnswer;
+  // Hints given before this card was loaded, oldest first
+  savedHints?: string[];
+  // Graded attempts before this card was loaded
+  attempts?: AttemptCount;
   onAnswerSubmit: () => void;
   documentUrl?: string | null;
+  // Wrong attempts before the worked solution unlocks, or null when the paper has them turned off
+  solutionAfterAttempts?: number | null;
 }
 
-export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documentUrl }: QuestionCardProps) => {
+// Verdict per step once graded: true up to the first wrong step, false for it, null after it
+const stepVerdicts = (stepCount: number, firstWrongStep: number | null): (boolean | null)[] =>
+  Array.from({ length: stepCount }, (_, index) =>
+    firstWrongStep === null || index + 1 < firstWrongStep ? true : index + 1 === firstWrongStep ? false : null
+  );
+
+export const QuestionCard = ({
+  question,
+  existingAnswer,
+  savedHints,
+  attempts,
+  onAnswerSubmit,
+  documentUrl,
+  solutionAfterAttempts = null,
+}: QuestionCardProps) => {
+  const answerType = parseAnswerType(question.answer_type);
+  const savedSteps = [...(existingAnswer?.answer_steps ?? [])].sort((a, b) => a.step_number - b.step_number);
   const [answer, setAnswer] = useState(existingAnswer?.student_answer || "");
+  // Working mode: numbered steps submitted alongside the final answer
+  const [showWorking, setShowWorking] = useState(savedSteps.length > 0);
+  const [steps, setSteps] = useState<string[]>(savedSteps.length > 0 ? savedSteps.map((step) => step.content) : [""]);
+  const [verdicts, setVerdicts] = useState<(boolean | null)[]>(savedSteps.map((step) => step.is_correct));
+  const [firstWrongStep, setFirstWrongStep] = useState<number | null>(existingAnswer?.first_wrong_step ?? null);
+  // Photos of handwritten working for the next submission
+  const [photos, setPhotos] = useState<File[]>([]);
+  // What grading read from the last photos, until the student confirms or fixes it
+  const [transcription, setTranscription] = useState<{ answerId: string; text: string; confirmed: boolean } | null>(
+    existingAnswer?.working_transcription
+      ? { answerId: existingAnswer.id, text: existingAnswer.working_transcription, confirmed: existingAnswer.transcription_confirmed }
+      : null
+  );
+  // The graded attempt an appeal would be about, and the appeal already made on it
+  const [gradedAnswerId, setGradedAnswerId] = useState<string | null>(existingAnswer?.id ?? null);
+  const [appeal, setAppeal] = useState<GradeAppeal | null>(latestAppeal(existingAnswer?.grade_appeals));
+  const [showAppealForm, setShowAppealForm] = useState(false);
+  const [appealComment, setAppealComment] = useState("");
+  const [isAppealing, setIsAppealing] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isGettingHint, setIsGettingHint] = useState(false);
-  const [hints, setHints] = useState<string[]>([]);
-  const [showHints, setShowHints] = useState(false);
+  const [hints, setHints] = useState<string[]>(savedHints ?? []);
+  // Text of the hint and feedback still arriving, null when nothing is streaming
+  const [streamingHint, setStreamingHint] = useState<string | null>(null);
+  const [streamingFeedback, setStreamingFeedback] = useState<string | null>(null);
+  const [showHints, setShowHints] = useState((savedHints ?? []).length > 0);
+  const [showTutor, setShowTutor] = useState(false);
+  const [attemptCount, setAttemptCount] = useState<AttemptCount>(attempts ?? NO_ATTEMPTS);
+  const [solution, setSolution] = useState<WorkedSolution | null>(null);
+  const [showSolution, setShowSolution] = useState(false);
+  const [isLoadingSolution, setIsLoadingSolution] = useState(false);
   const [currentResult, setCurrentResult] = useState<{
     isCorrect: boolean | null;
     cannotGrade: boolean;
     feedback: string | null;
+    score: number | null;
+    maxScore: number | null;
+    hintPenalty: number;
+    hintsUsed: number;
+    marks: RubricMark[] | null;
   }>({
     isCorrect: existingAnswer?.is_correct ?? null,
     cannotGrade: false,
     feedback: existingAnswer?.feedback ?? null,
+    score: existingAnswer?.score ?? null,
+    maxScore: existingAnswer?.max_score ?? null,
+    hintPenalty: existingAnswer?.hint_penalty ?? 0,
+    hintsUsed: existingAnswer?.hints_used ?? 0,
+    marks: existingAnswer?.rubric_marks ?? null,
   });
   const { toast } = useToast();
   const { user } = useAuth();
 
+  const updateStep = (index: number, value: string) => {
+    setSteps((prev) => prev.map((step, i) => (i === index ? value : step)));
+    setVerdicts([]);
+  };
+
+  const addStep = (afterIndex: number) => {
+    setSteps((prev) => [...prev.slice(0, afterIndex + 1), "", ...prev.slice(afterIndex + 1)]);
+    setVerdicts([]);
+  };
+
+  const removeStep = (index: number) => {
+    setSteps((prev) => prev.filter((_, i) => i !== index));
+    setVerdicts([]);
+  };
+
   const handleSubmit = async () => {
-    if (!answer.trim()) {
+    if (!answer.trim() && photos.length === 0) {
       toast({
         title: "Empty answer",
-        description: "Please enter your answer before submitting.",
+        description: "Please enter your answer or attach a photo of your working before submitting.",
         variant: "destructive",
       });
       return;
@@ -69,31 +189,88 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
 
       if (answerError) throw answerError;
 
-      // Call evaluation function with documentUrl for multimodal evaluation
-      const { data: evalData, error: evalError } = await supabase.functions.invoke(
+      // Each step of working is stored as its own row
+      const submittedSteps = showWorking ? steps.map((step) => step.trim()).filter(Boolean) : [];
+      if (submittedSteps.length > 0) {
+        const { error: stepsError } = await supabase.from("answer_steps").insert(
+          submittedSteps.map((content, index) => ({
+            answer_id: answerData.id,
+            step_number: index + 1,
+            content,
+          }))
+        );
+
+        if (stepsError) throw stepsError;
+      }
+
+      // Photos go to storage next to the documents, linked to this attempt
+      for (const [index, photo] of photos.entries()) {
+        const filePath = `answers/${answerData.id}/${index + 1}-${photo.name}`;
+        const { error: uploadError } = await supabase.storage
+          .from("documents")
+          .upload(filePath, photo);
+
+        if (uploadError) throw uploadError;
+
+        const { data: urlData } = supabase.storage
+          .from("documents")
+          .getPublicUrl(filePath);
+
+        const { error: photoError } = await supabase.from("answer_photos").insert({
+          answer_id: answerData.id,
+          storage_path: filePath,
+          image_url: urlData.publicUrl,
+          sort_order: index,
+        });
+
+        if (photoError) throw photoError;
+      }
+
+      // Call evaluation function with documentUrl for multimodal evaluation; the
+      // feedback shows as it is written and the verdict arrives at the end
+      const { data: evalData, error: evalError } = await streamFunction<EvaluationResult>(
         "evaluate-answer",
         {
-          body: {
-            questionId: question.id,
-            questionText: question.question_text,
-            studentAnswer: answer.trim(),
-            answerId: answerData.id,
-            documentUrl: documentUrl,
-          },
-        }
+          questionId: question.id,
+          studentAnswer: answer.trim(),
+          answerId: answerData.id,
+          documentUrl: documentUrl,
+          steps: submittedSteps,
+        },
+        (text) => setStreamingFeedback((prev) => (prev ?? "") + text)
       );
 
       if (evalError) {
         console.error("Evaluation error:", evalError);
-        throw new Error(evalError.message || "Failed to evaluate answer");
+        // 502: the grader's reply was unusable. The attempt is left ungraded, not marked wrong
+        throw new Error(evalError.status === 502
+          ? "We couldn't grade your answer this time. It hasn't been marked wrong, so please try submitting again."
+          : evalError.message || "Failed to evaluate answer");
       }
 
       setCurrentResult({
         isCorrect: evalData.isCorrect,
         cannotGrade: evalData.cannotGrade || false,
         feedback: evalData.feedback,
+        score: evalData.score ?? null,
+        maxScore: evalData.maxScore ?? null,
+        hintPenalty: evalData.hintPenalty ?? 0,
+        hintsUsed: evalData.hintsUsed ?? 0,
+        marks: evalData.marks ?? null,
       });
 
+      // Only working the model reviewed gets verdicts; blank steps were dropped, so renumber to match
+      const stepsReviewed = submittedSteps.length > 0 && evalData.gradedBy === "model" && !evalData.cannotGrade;
+      setSteps(submittedSteps.length > 0 ? submittedSteps : [""]);
+      setFirstWrongStep(evalData.firstWrongStep ?? null);
+      setVerdicts(stepsReviewed ? stepVerdicts(submittedSteps.length, evalData.firstWrongStep ?? null) : []);
+      setTranscription(evalData.transcription ? { answerId: answerData.id, text: evalData.transcription, confirmed: false } : null);
+      setPhotos([]);
+      setGradedAnswerId(answerData.id);
+      setAttemptCount((prev) => countAttempt(prev, evalData.cannotGrade ? null : evalData.isCorrect));
+      setAppeal(null);
+      setShowAppealForm(false);
+
       // Show appropriate toast based on result
       if (evalData.cannotGrade) {
         toast({
@@ -101,8 +278,9 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
           description: "Please check your answer against the figure in the original document.",
         });
       } else {
+        const partialCredit = !evalData.isCorrect && evalData.score > 0;
         toast({
-          title: evalData.isCorrect ? "Correct! 🎉" : "Not quite right",
+          title: evalData.isCorrect ? "Correct! 🎉" : partialCredit ? `Partial credit: ${evalData.score}/${evalData.maxScore}` : "Not quite right",
           description: evalData.feedback,
           variant: evalData.isCorrect ? "default" : "destructive",
         });
@@ -118,28 +296,134 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
       });
     } finally {
       setIsSubmitting(false);
+      setStreamingFeedback(null);
     }
   };
 
-  const handleGetHint = async () => {
-    setIsGettingHint(true);
+  const handleConfirmTranscription = async () => {
+    if (!transcription) return;
+    const { error } = await supabase
+      .from("student_answers")
+      .update({ transcription_confirmed: true })
+      .eq("id", transcription.answerId);
+
+    if (error) {
+      console.error("Confirm transcription error:", error);
+      toast({
+        title: "Couldn't save",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+    setTranscription({ ...transcription, confirmed: true });
+  };
+
+  // Misread working is typed in as steps, corrected and submitted again
+  const handleFixTranscription = () => {
+    if (!transcription) return;
+    const lines = transcription.text.split("\n").map((line) => line.trim()).filter(Boolean);
+    setSteps(lines.length > 0 ? lines : [""]);
+    setVerdicts([]);
+    setFirstWrongStep(null);
+    setShowWorking(true);
+    setTranscription(null);
+  };
+
+  const handleAppeal = async () => {
+    if (!gradedAnswerId || !user || !appealComment.trim()) return;
+
+    setIsAppealing(true);
     try {
-      const { data, error } = await supabase.functions.invoke("get-hint", {
+      const { data, error } = await supabase
+        .from("grade_appeals")
+        .insert({
+          answer_id: gradedAnswerId,
+          user_id: user.id,
+          comment: appealComment.trim(),
+        })
+        .select("id, status, comment, reviewer_comment, created_at, resolved_at")
+        .single();
+
+      if (error) throw error;
+
+      setAppeal(data as GradeAppeal);
+      setShowAppealForm(false);
+      setAppealComment("");
+      toast({
+        title: "Appeal sent",
+        description: "A reviewer will look at this grade.",
+      });
+    } catch (error) {
+      console.error("Appeal error:", error);
+      toast({
+        title: "Couldn't send appeal",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAppealing(false);
+    }
+  };
+
+  const handleShowSolution = async () => {
+    if (solution) {
+      setShowSolution(!showSolution);
+      return;
+    }
+
+    setIsLoadingSolution(true);
+    try {
+      // Written and checked once per question, so most students get a cached copy
+      const { data, error } = await supabase.functions.invoke("worked-solution", {
         body: {
-          questionText: question.question_text,
-          previousHints: hints,
+          questionId: question.id,
           documentUrl: documentUrl,
         },
       });
 
+      if (error) {
+        console.error("Worked solution error:", error);
+        throw new Error(error.message || "Failed to load the worked solution");
+      }
+
+      setSolution(data.solution);
+      setShowSolution(true);
+    } catch (error) {
+      toast({
+        title: "Couldn't show the solution",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoadingSolution(false);
+    }
+  };
+
+  const handleGetHint = async () => {
+    setIsGettingHint(true);
+    try {
+      const { data, error } = await streamFunction<{ hint: string; level: string }>(
+        "get-hint",
+        {
+          questionId: question.id,
+          documentUrl: documentUrl,
+        },
+        (text) => {
+          setStreamingHint((prev) => (prev ?? "") + text);
+          setShowHints(true);
+        }
+      );
+
       if (error) {
         console.error("Hint error:", error);
         throw new Error(error.message || "Failed to get hint");
       }
 
+      // get-hint has already saved it, so it is still here after a reload
       setHints((prev) => [...prev, data.hint]);
       setShowHints(true);
-      
+
       toast({
         title: "Hint received!",
         description: "Check out your new hint below.",
@@ -153,11 +437,19 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
       });
     } finally {
       setIsGettingHint(false);
+      setStreamingHint(null);
     }
   };
 
   const hasSubmitted = currentResult.feedback !== null;
   const showCorrectStatus = hasSubmitted && !currentResult.cannotGrade && currentResult.isCorrect !== null;
+  const wrongStepShown = showWorking && firstWrongStep !== null && verdicts[firstWrongStep - 1] === false;
+  const hasScore = showCorrectStatus && currentResult.score !== null && currentResult.maxScore !== null;
+  const nextHint = nextHintLevel(hints.length);
+  const hintsShown = hints.length + (streamingHint !== null ? 1 : 0);
+  const solutionsOffered = solutionAfterAttempts !== null;
+  const canRevealSolution = solutionsOffered && solutionUnlocked(solutionAfterAttempts, attemptCount);
+  const canAppeal = showCorrectStatus && gradedAnswerId !== null && appeal === null;
 
   return (
     <Card className="overflow-hidden transition-all duration-300 hover:shadow-card-hover">
@@ -168,6 +460,11 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
             {question.question_number}
           </span>
           <h3 className="font-medium text-foreground">Question {question.question_number}</h3>
+          {question.marks && (
+            <span className="text-xs text-muted-foreground">
+              [{question.marks} mark{question.marks !== 1 ? "s" : ""}]
+            </span>
+          )}
           {showCorrectStatus && (
             <span className={`ml-auto flex items-center gap-1 text-sm font-medium ${currentResult.isCorrect ? "text-success" : "text-destructive"}`}>
               {currentResult.isCorrect ? (
@@ -181,6 +478,7 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
                   Incorrect
                 </>
               )}
+              {hasScore && <span className="text-muted-foreground">· {currentResult.score}/{currentResult.maxScore}</span>}
             </span>
           )}
           {hasSubmitted && currentResult.cannotGrade && (
@@ -196,46 +494,153 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
       <div className="p-6">
         <div className="prose prose-sm max-w-none mb-6">
           <p className="text-foreground whitespace-pre-wrap font-mono text-base leading-relaxed">
-            {question.question_text}
+            <MathText text={question.question_text} />
           </p>
         </div>
 
         {/* Hints Section */}
-        {hints.length > 0 && showHints && (
+        {(hints.length > 0 || streamingHint !== null) && (
           <div className="mb-6 space-y-3">
             <button 
               onClick={() => setShowHints(!showHints)}
               className="flex items-center gap-2 text-sm font-medium text-warning hover:text-warning/80 transition-colors"
             >
               <Lightbulb className="h-4 w-4" />
-              {hints.length} Hint{hints.length > 1 ? "s" : ""} Available
+              {hintsShown} of {MAX_HINTS} Hint{hintsShown > 1 ? "s" : ""} Used
               <ChevronRight className={`h-4 w-4 transition-transform ${showHints ? "rotate-90" : ""}`} />
             </button>
-            <div className="space-y-2 pl-6">
-              {hints.map((hint, index) => (
-                <div 
+            {showHints && (
+              <div className="space-y-2 pl-6">
+                {hints.map((hint, index) => (
+                  <div 
+                    key={index}
+                    className="p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm text-foreground animate-fade-in"
+                  >
+                    <span className="font-medium text-warning">
+                      Hint {index + 1}{HINT_LEVELS[index] && ` · ${HINT_LEVELS[index].label}`}:
+                    </span>{" "}
+                    <MathText text={hint} />
+                  </div>
+                ))}
+                {streamingHint !== null && (
+                  <div className="p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm text-foreground animate-fade-in">
+                    <span className="font-medium text-warning">
+                      Hint {hints.length + 1}{nextHint && ` · ${nextHint.label}`}:
+                    </span>{" "}
+                    <MathText text={streamingHint} />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Answer Input */}
+        <div className="space-y-4">
+          {showWorking && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">Working</p>
+              {steps.map((step, index) => (
+                <div
                   key={index}
-                  className="p-3 bg-warning/10 border border-warning/20 rounded-lg text-sm text-foreground animate-fade-in"
+                  className={`flex items-center gap-2 rounded-lg p-1 ${verdicts[index] === false ? "bg-destructive/10 ring-1 ring-destructive/30" : ""}`}
                 >
-                  <span className="font-medium text-warning">Hint {index + 1}:</span> {hint}
+                  <span className="w-6 text-right text-sm font-medium text-muted-foreground">{index + 1}.</span>
+                  <Input
+                    value={step}
+                    onChange={(e) => updateStep(index, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === "Enter") {
+                        e.preventDefault();
+                        addStep(index);
+                      }
+                    }}
+                    placeholder={index === 0 ? "First step of your working..." : "Next step..."}
+                    className="font-mono"
+                    disabled={isSubmitting}
+                  />
+                  {verdicts[index] === true && <CheckCircle className="h-4 w-4 shrink-0 text-success" />}
+                  {verdicts[index] === false && <XCircle className="h-4 w-4 shrink-0 text-destructive" />}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeStep(index)}
+                    disabled={isSubmitting || steps.length === 1}
+                    aria-label={`Remove step ${index + 1}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
                 </div>
               ))}
+              <Button variant="ghost" size="sm" onClick={() => addStep(steps.length - 1)} disabled={isSubmitting}>
+                <Plus className="h-4 w-4" />
+                Add step
+              </Button>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* Answer Input */}
-        <div className="space-y-4">
-          <Textarea
-            placeholder="Type your answer here..."
-            value={answer}
-            onChange={(e) => setAnswer(e.target.value)}
-            className="min-h-[100px] font-mono resize-none"
-            disabled={isSubmitting}
-          />
+          {answerType ? (
+            <div className="space-y-2">
+              {showWorking && <p className="text-sm font-medium text-foreground">Final answer</p>}
+              <AnswerInput
+                answerType={answerType}
+                options={parseAnswerOptions(question.answer_options)}
+                value={answer}
+                onChange={setAnswer}
+                disabled={isSubmitting}
+                idPrefix={`answer-${question.id}`}
+              />
+            </div>
+          ) : (
+            <Textarea
+              placeholder={showWorking ? "Final answer..." : "Type your answer here..."}
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              className={`${showWorking ? "min-h-[60px]" : "min-h-[100px]"} font-mono resize-none`}
+              disabled={isSubmitting}
+            />
+          )}
+
+          <WorkingPhotos photos={photos} onChange={setPhotos} disabled={isSubmitting} />
+
+          {/* What grading read from the photos */}
+          {transcription && (
+            <div className="p-4 rounded-lg border border-border bg-secondary/30 animate-slide-up">
+              <p className="flex items-center gap-2 text-sm font-medium mb-2">
+                <ScanText className="h-4 w-4" />
+                We read your working as:
+              </p>
+              <pre className="text-sm text-foreground whitespace-pre-wrap font-mono">{transcription.text}</pre>
+              {transcription.confirmed ? (
+                <p className="flex items-center gap-1 text-sm text-success mt-2">
+                  <CheckCircle className="h-4 w-4" />
+                  Confirmed
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2 mt-3">
+                  <Button size="sm" variant="outline" onClick={handleConfirmTranscription}>
+                    That's right
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={handleFixTranscription}>
+                    Fix it and resubmit
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Feedback as it is written, before the verdict is in */}
+          {streamingFeedback !== null && (
+            <div className="p-4 rounded-lg bg-secondary/30 border border-border animate-slide-up">
+              <p className="text-sm font-medium mb-1">Feedback:</p>
+              <p className="text-sm text-muted-foreground">
+                <MathText text={streamingFeedback} />
+              </p>
+            </div>
+          )}
 
           {/* Feedback Display */}
-          {hasSubmitted && currentResult.feedback && (
+          {hasSubmitted && currentResult.feedback && streamingFeedback === null && (
             <div className={`p-4 rounded-lg animate-slide-up ${
               currentResult.cannotGrade 
                 ? "bg-warning/10 border border-warning/20"
@@ -248,9 +653,55 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
                   ? "Feedback (please verify against the original document):"
                   : currentResult.isCorrect 
                     ? "Great job!" 
-                    : "Feedback:"}
+                    : wrongStepShown
+                      ? `Feedback on step ${firstWrongStep}:`
+                      : "Feedback:"}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                <MathText text={currentResult.feedback} />
               </p>
-              <p className="text-sm text-muted-foreground">{currentResult.feedback}</p>
+              {hasScore && (
+                <p className="text-sm font-medium mt-2">
+                  {scoreSummary(currentResult.score!, currentResult.maxScore!, currentResult.marks)}
+                  {currentResult.hintPenalty > 0 && (
+                    <span className="font-normal text-muted-foreground">
+                      {" "}({describeHintPenalty(currentResult.hintPenalty, currentResult.hintsUsed)})
+                    </span>
+                  )}
+                </p>
+              )}
+              {appeal && (
+                <p className="flex items-center gap-1 text-sm text-muted-foreground mt-2">
+                  <Flag className="h-4 w-4 shrink-0" />
+                  {describeAppeal(appeal)}
+                </p>
+              )}
+              {canAppeal && !showAppealForm && (
+                <Button size="sm" variant="ghost" className="mt-2 -ml-2" onClick={() => setShowAppealForm(true)}>
+                  <Flag className="h-4 w-4" />
+                  Appeal this grade
+                </Button>
+              )}
+              {canAppeal && showAppealForm && (
+                <div className="space-y-2 mt-3">
+                  <Textarea
+                    placeholder="Why do you think this grade is wrong?"
+                    value={appealComment}
+                    onChange={(e) => setAppealComment(e.target.value)}
+                    className="min-h-[60px] resize-none bg-background"
+                    disabled={isAppealing}
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={handleAppeal} disabled={isAppealing || !appealComment.trim()}>
+                      {isAppealing && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Send appeal
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setShowAppealForm(false)} disabled={isAppealing}>
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
@@ -258,13 +709,13 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
           <div className="flex flex-wrap gap-3">
             <Button
               onClick={handleSubmit}
-              disabled={isSubmitting || !answer.trim()}
+              disabled={isSubmitting || (!answer.trim() && photos.length === 0)}
               className="flex-1 sm:flex-none"
             >
               {isSubmitting ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Evaluating...
+                  {streamingFeedback === null ? "Evaluating..." : "Grading..."}
                 </>
               ) : (
                 <>
@@ -274,25 +725,97 @@ export const QuestionCard = ({ question, existingAnswer, onAnswerSubmit, documen
               )}
             </Button>
 
+            <Button
+              variant="outline"
+              onClick={() => setShowWorking(!showWorking)}
+              disabled={isSubmitting}
+              className="flex-1 sm:flex-none"
+            >
+              <ListOrdered className="h-4 w-4" />
+              {showWorking ? "Answer Only" : "Show Working"}
+            </Button>
+
             <Button
               variant="warning"
               onClick={handleGetHint}
-              disabled={isGettingHint}
+              disabled={isGettingHint || !nextHint}
+              title={nextHint ? `Next hint: ${nextHint.label}. Costs ${describePenalty(nextHint)}.` : "No hints left for this question"}
               className="flex-1 sm:flex-none"
             >
-              {isGettingHint ? (
+              {isGettingHint && streamingHint === null ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
                   Thinking...
                 </>
+              ) : isGettingHint ? (
+                <>
+                  <Lightbulb className="h-4 w-4" />
+                  Writing hint...
+                </>
               ) : (
                 <>
                   <Lightbulb className="h-4 w-4" />
-                  Get Hint
+                  {nextHint ? `Hint: ${nextHint.label}` : "No Hints Left"}
                 </>
               )}
             </Button>
+
+            <Button
+              variant={showTutor ? "default" : "outline"}
+              onClick={() => setShowTutor(!showTutor)}
+              className="flex-1 sm:flex-none"
+            >
+              <MessageCircle className="h-4 w-4" />
+              {showTutor ? "Close Tutor" : "Ask Tutor"}
+            </Button>
+
+            {solutionsOffered && (
+              <Button
+                variant={showSolution ? "default" : "outline"}
+                onClick={handleShowSolution}
+                disabled={!canRevealSolution || isLoadingSolution}
+                title={canRevealSolution ? undefined : describeUnlock(solutionAfterAttempts, attemptCount)}
+                className="flex-1 sm:flex-none"
+              >
+                {isLoadingSolution ? <Loader2 className="h-4 w-4 animate-spin" /> : <BookOpen className="h-4 w-4" />}
+                {showSolution ? "Hide Solution" : "Show Solution"}
+              </Button>
+            )}
           </div>
+          {nextHint && (
+            <p className="text-xs text-muted-foreground">
+              Hint {hints.length + 1} of {MAX_HINTS} costs {describePenalty(nextHint)} on the answers you submit after it.
+            </p>
+          )}
+          {solutionsOffered && !canRevealSolution && (
+            <p className="text-xs text-muted-foreground">
+              Worked solution: {describeUnlock(solutionAfterAttempts, attemptCount).toLowerCase()}.
+            </p>
+          )}
+
+          {showTutor && (
+            <TutorChat questionId={question.id} documentUrl={documentUrl} />
+          )}
+
+          {/* Worked Solution */}
+          {showSolution && solution && (
+            <div className="p-4 rounded-lg border border-border bg-secondary/30 animate-slide-up">
+              <p className="flex items-center gap-2 text-sm font-medium mb-2">
+                <BookOpen className="h-4 w-4" />
+                Worked solution
+              </p>
+              <ol className="list-decimal pl-5 space-y-1 text-sm text-foreground">
+                {solution.steps.map((step, index) => (
+                  <li key={index}>
+                    <MathText text={step} />
+                  </li>
+                ))}
+              </ol>
+              <p className="text-sm font-medium mt-3">
+                Answer: <MathText text={solution.finalAnswer} />
+              </p>
+            </div>
+          )}
         </div>
       </div>
     </Card>
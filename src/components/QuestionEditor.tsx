@@ -0,0 +1,295 @@
+import { useState, useRef } from "react";
+import { GripVertical, Pencil, Scissors, Merge, Trash2, Save, X, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { MathText } from "@/components/MathText";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+interface Question {
+  id: string;
+  question_number: string;
+  question_text: string;
+  document_id: string;
+  parent_id: string | null;
+  page_number: number | null;
+}
+
+interface QuestionEditorProps {
+  documentId: string;
+  questions: Question[];
+  onQuestionsChange: () => Promise<void> | void;
+}
+
+export const QuestionEditor = ({ documentId, questions, onQuestionsChange }: QuestionEditorProps) => {
+  const [order, setOrder] = useState<string[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftNumber, setDraftNumber] = useState("");
+  const [draftText, setDraftText] = useState("");
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Question | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+  const { toast } = useToast();
+
+  // After a drop, rows follow the new order until it is saved and reloaded
+  const byId = new Map(questions.map((q) => [q.id, q]));
+  const rows = order ? order.map((id) => byId.get(id)).filter((q): q is Question => !!q) : questions;
+
+  const depthOf = (question: Question) => {
+    let depth = 0;
+    let parentId = question.parent_id;
+    while (parentId && byId.has(parentId) && depth < 5) {
+      depth++;
+      parentId = byId.get(parentId)!.parent_id;
+    }
+    return depth;
+  };
+
+  const showError = (title: string, error: unknown) => {
+    console.error(`${title}:`, error);
+    toast({
+      title,
+      description: error instanceof Error ? error.message : (error as { message?: string })?.message ?? "Something went wrong.",
+      variant: "destructive",
+    });
+  };
+
+  // Runs one edit, then reloads so the list reflects what was saved
+  const runEdit = async (title: string, edit: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await edit();
+      await onQuestionsChange();
+    } catch (error) {
+      showError(title, error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const saveOrder = async (questionIds: string[]) => {
+    const { error } = await supabase.rpc("reorder_questions", {
+      p_document_id: documentId,
+      p_question_ids: questionIds,
+    });
+    if (error) throw error;
+  };
+
+  const startEditing = (question: Question) => {
+    setEditingId(question.id);
+    setDraftNumber(question.question_number);
+    setDraftText(question.question_text);
+  };
+
+  const handleSave = () =>
+    runEdit("Could not save question", async () => {
+      const { error } = await supabase
+        .from("questions")
+        .update({ question_number: draftNumber.trim(), question_text: draftText })
+        .eq("id", editingId!);
+      if (error) throw error;
+      setEditingId(null);
+    });
+
+  // Text before the cursor stays on this question; the rest becomes a new question right after it
+  const handleSplit = (question: Question) => {
+    const cursor = textRef.current?.selectionStart ?? draftText.length;
+    const first = draftText.slice(0, cursor).trim();
+    const second = draftText.slice(cursor).trim();
+    if (!first || !second) {
+      toast({
+        title: "Nothing to split",
+        description: "Place the cursor where the second question starts.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    runEdit("Could not split question", async () => {
+      const { error: updateError } = await supabase
+        .from("questions")
+        .update({ question_number: draftNumber.trim(), question_text: first })
+        .eq("id", question.id);
+      if (updateError) throw updateError;
+
+      const { data: inserted, error: insertError } = await supabase
+        .from("questions")
+        .insert({
+          document_id: documentId,
+          parent_id: question.parent_id,
+          question_number: draftNumber.trim(),
+          question_text: second,
+          page_number: question.page_number,
+          approved: true,
+        })
+        .select()
+        .single();
+      if (insertError) throw insertError;
+
+      const ids = rows.map((q) => q.id);
+      ids.splice(ids.indexOf(question.id) + 1, 0, inserted.id);
+      await saveOrder(ids);
+
+      // Open the new question so its number can be fixed straight away
+      startEditing(inserted);
+    });
+  };
+
+  const handleMergeWithNext = (question: Question) => {
+    const next = rows[rows.indexOf(question) + 1];
+    if (!next) return;
+    runEdit("Could not merge questions", async () => {
+      const { error } = await supabase.rpc("merge_questions", {
+        p_keep_id: question.id,
+        p_remove_id: next.id,
+      });
+      if (error) throw error;
+    });
+  };
+
+  const handleDelete = () => {
+    const question = pendingDelete;
+    setPendingDelete(null);
+    if (!question) return;
+    runEdit("Could not delete question", async () => {
+      const { error } = await supabase.from("questions").delete().eq("id", question.id);
+      if (error) throw error;
+    });
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (!draggingId || draggingId === targetId) {
+      setDraggingId(null);
+      return;
+    }
+    // Dropping moves the dragged question into the target's slot
+    const ids = rows.map((q) => q.id);
+    const targetIndex = ids.indexOf(targetId);
+    ids.splice(ids.indexOf(draggingId), 1);
+    ids.splice(targetIndex, 0, draggingId);
+    setOrder(ids);
+    setDraggingId(null);
+
+    runEdit("Could not reorder questions", async () => {
+      await saveOrder(ids);
+    }).finally(() => setOrder(null));
+  };
+
+  const partsOf = (question: Question) => questions.filter((q) => q.parent_id === question.id).length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Drag questions to reorder. Merging keeps the upper question and moves student answers from the lower one onto it.
+      </p>
+
+      {rows.map((question, index) => {
+        const isEditingRow = editingId === question.id;
+        return (
+          <div
+            key={question.id}
+            draggable={!isEditingRow && !isSaving}
+            onDragStart={() => setDraggingId(question.id)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={() => handleDrop(question.id)}
+            onDragEnd={() => setDraggingId(null)}
+            style={{ marginLeft: `${depthOf(question) * 1.5}rem` }}
+            className={`p-3 rounded-xl border bg-card transition-opacity ${draggingId === question.id ? "opacity-50" : ""}`}
+          >
+            {isEditingRow ? (
+              <div className="space-y-2">
+                <Input
+                  value={draftNumber}
+                  onChange={(e) => setDraftNumber(e.target.value)}
+                  placeholder="Question number"
+                  className="w-32"
+                />
+                <Textarea
+                  ref={textRef}
+                  value={draftText}
+                  onChange={(e) => setDraftText(e.target.value)}
+                  className="min-h-[120px] font-mono text-sm"
+                />
+                {/* How students will see it */}
+                {draftText.trim() && (
+                  <p className="rounded-lg bg-secondary/30 p-2 text-sm text-foreground whitespace-pre-wrap">
+                    <MathText text={draftText} />
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={handleSave} disabled={isSaving || !draftNumber.trim()}>
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                    Save
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => handleSplit(question)} disabled={isSaving}>
+                    <Scissors className="h-4 w-4" />
+                    Split at cursor
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setEditingId(null)} disabled={isSaving}>
+                    <X className="h-4 w-4" />
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-start gap-2">
+                <GripVertical className="h-4 w-4 mt-1 text-muted-foreground cursor-grab flex-shrink-0" />
+                <span className="font-medium text-foreground flex-shrink-0">{question.question_number}</span>
+                <p className="flex-1 text-sm text-foreground whitespace-pre-wrap font-mono line-clamp-3">
+                  <MathText text={question.question_text} />
+                </p>
+                <div className="flex flex-shrink-0">
+                  <Button size="icon" variant="ghost" title="Edit" onClick={() => startEditing(question)} disabled={isSaving}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Merge with next question"
+                    onClick={() => handleMergeWithNext(question)}
+                    disabled={isSaving || index === rows.length - 1}
+                  >
+                    <Merge className="h-4 w-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Delete" onClick={() => setPendingDelete(question)} disabled={isSaving}>
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <AlertDialog open={!!pendingDelete} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete question {pendingDelete?.question_number}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Student answers to this question are deleted with it.
+              {pendingDelete && partsOf(pendingDelete) > 0 &&
+                ` Its ${partsOf(pendingDelete)} part${partsOf(pendingDelete) !== 1 ? "s are" : " is"} deleted too.`}
+              {" "}To keep the answers, merge it into another question instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import { Card } from "@/components/ui/card";
+import { MathText } from "@/components/MathText";
+import { QuestionCard } from "@/components/QuestionCard";
+import type { QuestionNode } from "@/lib/questions";
+import type { RubricMark } from "@/lib/rubric";
+import type { GradeAppeal } from "@/lib/appeals";
+import type { AttemptCount } from "@/lib/solutions";
+
+interface Question {
+  id: string;
+  question_number: string;
+  question_text: string;
+  parent_id: string | null;
+  marks: number | null;
+  answer_type: string | null;
+  answer_options: unknown;
+}
+
+interface AnswerStep {
+  step_number: number;
+  content: string;
+  is_correct: boolean | null;
+}
+
+interface StudentAnswer {
+  id: string;
+  student_answer: string;
+  is_correct: boolean | null;
+  feedback: string | null;
+  score: number | null;
+  max_score: number | null;
+  rubric_marks: RubricMark[] | null;
+  first_wrong_step: number | null;
+  answer_steps: AnswerStep[];
+  working_transcription: string | null;
+  transcription_confirmed: boolean;
+  hints_used: number;
+  hint_penalty: number;
+  grade_appeals: GradeAppeal[];
+}
+
+interface QuestionGroupProps {
+  node: QuestionNode<Question>;
+  answers: Record<string, StudentAnswer>;
+  hints: Record<string, string[]>;
+  attempts: Record<string, AttemptCount>;
+  onAnswerSubmit: () => void;
+  documentUrl?: string | null;
+  // Wrong attempts before a worked solution unlocks, or null when the paper has them turned off
+  solutionAfterAttempts: number | null;
+}
+
+export const QuestionGroup = ({ node, answers, hints, attempts, onAnswerSubmit, documentUrl, solutionAfterAttempts }: QuestionGroupProps) => {
+  const { question, children } = node;
+
+  if (children.length === 0) {
+    return (
+      <QuestionCard
+        question={question}
+        existingAnswer={answers[question.id]}
+        savedHints={hints[question.id]}
+        attempts={attempts[question.id]}
+        onAnswerSubmit={onAnswerSubmit}
+        documentUrl={documentUrl}
+        solutionAfterAttempts={solutionAfterAttempts}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Shared stem */}
+      <Card className="overflow-hidden">
+        <div className="bg-secondary/50 px-6 py-4 border-b border-border">
+          <div className="flex items-center gap-3">
+            <span className="flex items-center justify-center w-8 h-8 rounded-full bg-primary text-primary-foreground text-sm font-semibold">
+              {question.question_number}
+            </span>
+            <h3 className="font-medium text-foreground">Question {question.question_number}</h3>
+            <span className="ml-auto text-xs text-muted-foreground">
+              {children.length} part{children.length !== 1 ? "s" : ""}
+            </span>
+          </div>
+        </div>
+        <div className="p-6">
+          <p className="text-foreground whitespace-pre-wrap font-mono text-base leading-relaxed">
+            <MathText text={question.question_text} />
+          </p>
+        </div>
+      </Card>
+
+      {/* Parts */}
+      <div className="space-y-4 pl-4 ml-4 border-l-2 border-primary/20">
+        {children.map((child) => (
+          <QuestionGroup
+            key={child.question.id}
+            node={child}
+            answers={answers}
+            hints={hints}
+            attempts={attempts}
+            onAnswerSubmit={onAnswerSubmit}
+            documentUrl={documentUrl}
+            solutionAfterAttempts={solutionAfterAttempts}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
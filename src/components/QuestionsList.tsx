@@ -1,46 +1,139 @@
 import { useState, useEffect } from "react";
-import { FileQuestion, Loader2, ArrowLeft, RefreshCw, PanelLeftClose, PanelLeft } from "lucide-react";
+import { FileQuestion, Loader2, ArrowLeft, RefreshCw, PanelLeftClose, PanelLeft, ClipboardCheck, ClipboardList, Pencil, Check, ScanText, Flag, BookOpen } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { QuestionCard } from "@/components/QuestionCard";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { DocumentUpload } from "@/components/DocumentUpload";
+import { QuestionGroup } from "@/components/QuestionGroup";
+import { QuestionEditor } from "@/components/QuestionEditor";
+import { GradeAppeals } from "@/components/GradeAppeals";
+import { SolutionSettings, type SolutionSettingsValue } from "@/components/SolutionSettings";
 import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useProcessingJob } from "@/hooks/useProcessingJob";
+import { buildQuestionTree, answerableQuestions, totalMarks as sumTotalMarks } from "@/lib/questions";
+import type { RubricMark } from "@/lib/rubric";
+import type { GradeAppeal } from "@/lib/appeals";
+import { countAttempt, NO_ATTEMPTS, type AttemptCount } from "@/lib/solutions";
 
 interface Question {
   id: string;
   question_number: string;
   question_text: string;
   document_id: string;
+  parent_id: string | null;
+  marks: number | null;
+  answer_type: string | null;
+  answer_options: unknown;
+  reference_answer: string | null;
+  page_number: number | null;
+}
+
+interface AnswerStep {
+  step_number: number;
+  content: string;
+  is_correct: boolean | null;
+}
+
+interface StudentAnswer {
+  id: string;
+  question_id: string;
+  student_answer: string;
+  is_correct: boolean | null;
+  feedback: string | null;
+  score: number | null;
+  max_score: number | null;
+  rubric_marks: RubricMark[] | null;
+  first_wrong_step: number | null;
+  answer_steps: AnswerStep[];
+  working_transcription: string | null;
+  transcription_confirmed: boolean;
+  hints_used: number;
+  hint_penalty: number;
+  grade_appeals: GradeAppeal[];
 }
 
 interface Document {
   id: string;
+  user_id: string | null;
   filename: string;
   uploaded_at: string;
   status: string;
   file_url: string | null;
+  total_marks: number | null;
+  solutions_enabled: boolean;
+  solution_after_attempts: number;
 }
 
 interface QuestionsListProps {
   onBack: () => void;
+  onReview: (documentId: string) => void;
 }
 
-export const QuestionsList = ({ onBack }: QuestionsListProps) => {
+export const QuestionsList = ({ onBack, onReview }: QuestionsListProps) => {
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [pendingReview, setPendingReview] = useState<Document[]>([]);
   const [selectedDocumentId, setSelectedDocumentId] = useState<string | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
+  const [answers, setAnswers] = useState<Record<string, StudentAnswer>>({});
+  // Hints already given per question, oldest first
+  const [hints, setHints] = useState<Record<string, string[]>>({});
+  // Graded attempts per question, which unlock its worked solution
+  const [attempts, setAttempts] = useState<Record<string, AttemptCount>>({});
   const [isLoading, setIsLoading] = useState(true);
   const [showPdfViewer, setShowPdfViewer] = useState(true);
+  const [showMarkSchemeUpload, setShowMarkSchemeUpload] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [showReprocessConfirm, setShowReprocessConfirm] = useState(false);
+  const [showAppeals, setShowAppeals] = useState(false);
+  const [showSolutionSettings, setShowSolutionSettings] = useState(false);
+  const [openAppealCount, setOpenAppealCount] = useState(0);
+  const [reprocessJobId, setReprocessJobId] = useState<string | null>(null);
+  const reprocessJob = useProcessingJob(reprocessJobId);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  // Re-running OCR sends the paper back through review, where the changes are shown
+  useEffect(() => {
+    if (!reprocessJob) return;
+
+    if (reprocessJob.stage === "completed") {
+      setReprocessJobId(null);
+      onReview(reprocessJob.document_id);
+    } else if (reprocessJob.stage === "failed") {
+      setReprocessJobId(null);
+      toast({
+        title: "Re-running OCR failed",
+        description: reprocessJob.last_error || "The questions were left unchanged.",
+        variant: "destructive",
+      });
+    }
+  }, [reprocessJob?.stage]);
 
   const fetchDocuments = async () => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
+      const { data: allData, error } = await supabase
         .from("documents")
         .select("*")
-        .eq("status", "completed")
+        .in("status", ["completed", "needs_review"])
+        .eq("kind", "question_paper")
         .order("uploaded_at", { ascending: false });
 
       if (error) throw error;
-      setDocuments(data || []);
+      const data = (allData || []).filter((doc) => doc.status === "completed");
+      setDocuments(data);
+      setPendingReview((allData || []).filter((doc) => doc.status === "needs_review"));
       
       // Auto-select the most recent document if available
       if (data && data.length > 0 && !selectedDocumentId) {
@@ -59,16 +152,113 @@ export const QuestionsList = ({ onBack }: QuestionsListProps) => {
         .from("questions")
         .select("*")
         .eq("document_id", documentId)
+        .eq("approved", true)
         .order("sort_order", { ascending: true });
 
       if (error) throw error;
+      // Load answers and hints before rendering so each card starts from where the student left off
+      const questionIds = (data || []).map((q) => q.id);
+      await Promise.all([fetchAnswers(questionIds), fetchHints(questionIds)]);
       setQuestions(data || []);
+      return data || [];
     } catch (error) {
       console.error("Error fetching questions:", error);
+      return null;
     }
   };
 
+  const fetchAnswers = async (questionIds: string[]) => {
+    if (!user || questionIds.length === 0) {
+      setAnswers({});
+      setAttempts({});
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("student_answers")
+        .select("id, question_id, student_answer, is_correct, feedback, score, max_score, hints_used, hint_penalty, rubric_marks, first_wrong_step, working_transcription, transcription_confirmed, answer_steps(step_number, content, is_correct), grade_appeals(id, status, comment, reviewer_comment, created_at, resolved_at)")
+        .in("question_id", questionIds)
+        .eq("user_id", user.id)
+        // An attempt grading failed on has no result; the one before it still counts
+        .neq("grading_status", "failed")
+        .order("submitted_at", { ascending: false });
+
+      if (error) throw error;
+
+      // Keep only the latest attempt per question, and count them all
+      const latest: Record<string, StudentAnswer> = {};
+      const counts: Record<string, AttemptCount> = {};
+      for (const answer of data || []) {
+        counts[answer.question_id] = countAttempt(counts[answer.question_id] ?? NO_ATTEMPTS, answer.is_correct);
+        if (!latest[answer.question_id]) {
+          latest[answer.question_id] = {
+            ...answer,
+            rubric_marks: answer.rubric_marks as unknown as RubricMark[] | null,
+            grade_appeals: answer.grade_appeals as GradeAppeal[],
+          };
+        }
+      }
+      setAnswers(latest);
+      setAttempts(counts);
+    } catch (error) {
+      console.error("Error fetching answers:", error);
+    }
+  };
+
+  const fetchHints = async (questionIds: string[]) => {
+    if (!user || questionIds.length === 0) {
+      setHints({});
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("hints")
+        .select("question_id, content")
+        .in("question_id", questionIds)
+        .eq("user_id", user.id)
+        .order("hint_number", { ascending: true });
+
+      if (error) throw error;
+
+      const byQuestion: Record<string, string[]> = {};
+      for (const hint of data || []) {
+        (byQuestion[hint.question_id] ??= []).push(hint.content);
+      }
+      setHints(byQuestion);
+    } catch (error) {
+      console.error("Error fetching hints:", error);
+    }
+  };
+
+  const fetchOpenAppealCount = async (documentId: string) => {
+    const { count, error } = await supabase
+      .from("grade_appeals")
+      .select("id, student_answers!inner(questions!inner(document_id))", { count: "exact", head: true })
+      .eq("status", "open")
+      .eq("student_answers.questions.document_id", documentId);
+
+    if (error) {
+      console.error("Error counting appeals:", error);
+      return;
+    }
+    setOpenAppealCount(count ?? 0);
+  };
+
   const selectedDocument = documents.find(d => d.id === selectedDocumentId);
+  // Appeals on a paper are decided by whoever uploaded it
+  const isOwner = !!user && selectedDocument?.user_id === user.id;
+  const questionTree = buildQuestionTree(questions);
+  const answerable = answerableQuestions(questionTree);
+  const answerableCount = answerable.length;
+  const totalMarks = selectedDocument?.total_marks ?? null;
+  // Partial credit where the answer was scored; answers graded before scoring count all or nothing
+  const earnedMarks = answerable.reduce((sum, q) => {
+    const answer = answers[q.id];
+    if (!answer) return sum;
+    return sum + (answer.score ?? (answer.is_correct ? q.marks ?? 0 : 0));
+  }, 0);
 
   useEffect(() => {
     fetchDocuments();
@@ -80,8 +270,88 @@ export const QuestionsList = ({ onBack }: QuestionsListProps) => {
     }
   }, [selectedDocumentId]);
 
+  useEffect(() => {
+    if (selectedDocumentId && isOwner) {
+      fetchOpenAppealCount(selectedDocumentId);
+    } else {
+      setOpenAppealCount(0);
+    }
+  }, [selectedDocumentId, isOwner]);
+
+  const hasMarkScheme = questions.some((q) => q.reference_answer);
+
+  const handleMarkSchemeUploaded = () => {
+    setShowMarkSchemeUpload(false);
+    if (selectedDocumentId) {
+      fetchQuestions(selectedDocumentId);
+    }
+  };
+
+  const handleQuestionsEdited = async () => {
+    if (!selectedDocumentId) return;
+    const updated = await fetchQuestions(selectedDocumentId);
+    if (!updated) return;
+
+    // Merging, splitting and deleting change which questions carry marks
+    const total = sumTotalMarks(buildQuestionTree(updated));
+    if (total !== selectedDocument?.total_marks) {
+      const { error } = await supabase
+        .from("documents")
+        .update({ total_marks: total })
+        .eq("id", selectedDocumentId);
+      if (error) {
+        console.error("Error updating total marks:", error);
+        return;
+      }
+      setDocuments((prev) => prev.map((doc) => (doc.id === selectedDocumentId ? { ...doc, total_marks: total } : doc)));
+    }
+  };
+
+  const handleReprocess = async () => {
+    setShowReprocessConfirm(false);
+    if (!selectedDocument?.file_url) return;
+
+    try {
+      const { data: jobData, error: jobError } = await supabase
+        .from("processing_jobs")
+        .insert({ document_id: selectedDocument.id, file_url: selectedDocument.file_url })
+        .select()
+        .single();
+
+      if (jobError) throw jobError;
+      setReprocessJobId(jobData.id);
+
+      const { error: workerError } = await supabase.functions.invoke("process-document", {
+        body: { jobId: jobData.id },
+      });
+
+      if (workerError) {
+        console.error("Could not start worker, job will be picked up on the next run:", workerError);
+      }
+    } catch (error) {
+      console.error("Reprocess error:", error);
+      toast({
+        title: "Could not re-run OCR",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAppealResolved = () => {
+    if (!selectedDocumentId) return;
+    fetchOpenAppealCount(selectedDocumentId);
+    fetchAnswers(questions.map((q) => q.id));
+  };
+
+  const handleSolutionSettingsSaved = (settings: SolutionSettingsValue) => {
+    setShowSolutionSettings(false);
+    setDocuments((prev) => prev.map((doc) => (doc.id === selectedDocumentId ? { ...doc, ...settings } : doc)));
+  };
+
   const handleAnswerSubmit = () => {
-    // Optionally refresh data after submission
+    // Refresh the marks summary
+    fetchAnswers(questions.map((q) => q.id));
   };
 
   if (isLoading) {
@@ -93,9 +363,26 @@ export const QuestionsList = ({ onBack }: QuestionsListProps) => {
     );
   }
 
+  const reviewBanner = pendingReview.length > 0 && (
+    <div className="bg-warning/10 border border-warning/20 rounded-xl p-4 space-y-2">
+      <p className="text-sm font-medium text-foreground">
+        {pendingReview.length} document{pendingReview.length !== 1 ? "s" : ""} waiting for review before students can see {pendingReview.length !== 1 ? "them" : "it"}
+      </p>
+      <div className="flex flex-wrap gap-2">
+        {pendingReview.map((doc) => (
+          <Button key={doc.id} variant="outline" size="sm" onClick={() => onReview(doc.id)}>
+            <ClipboardList className="h-4 w-4" />
+            Review {doc.filename}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
   if (documents.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center py-16 gap-6 text-center">
+        {reviewBanner}
         <div className="p-4 rounded-full bg-secondary">
           <FileQuestion className="h-12 w-12 text-muted-foreground" />
         </div>
@@ -117,6 +404,8 @@ export const QuestionsList = ({ onBack }: QuestionsListProps) => {
 
   return (
     <div className="space-y-4">
+      {reviewBanner}
+
       {/* Document Selector */}
       <div className="flex flex-col sm:flex-row sm:items-center gap-4">
         <Button variant="ghost" onClick={onBack} className="w-fit">
@@ -140,6 +429,47 @@ export const QuestionsList = ({ onBack }: QuestionsListProps) => {
         </div>
 
         <div className="flex gap-2">
+          <Button
+            variant={isEditing ? "default" : "outline"}
+            onClick={() => setIsEditing(!isEditing)}
+            title={isEditing ? "Done editing" : "Edit questions"}
+          >
+            {isEditing ? <Check className="h-4 w-4" /> : <Pencil className="h-4 w-4" />}
+            <span className="hidden sm:inline">{isEditing ? "Done" : "Edit"}</span>
+          </Button>
+          {hasFileUrl && (
+            <Button
+              variant="outline"
+              onClick={() => setShowReprocessConfirm(true)}
+              disabled={!!reprocessJobId}
+              title="Re-run OCR"
+            >
+              {reprocessJobId ? <Loader2 className="h-4 w-4 animate-spin" /> : <ScanText className="h-4 w-4" />}
+              <span className="hidden sm:inline">
+                {reprocessJob?.stage === "ocr" ? `Page ${reprocessJob.current_page}/${reprocessJob.total_pages}` : "Re-run OCR"}
+              </span>
+            </Button>
+          )}
+          {isOwner && (
+            <Button variant="outline" onClick={() => setShowAppeals(true)} title="Grade appeals">
+              <Flag className="h-4 w-4" />
+              <span className="hidden sm:inline">Appeals{openAppealCount > 0 ? ` (${openAppealCount})` : ""}</span>
+            </Button>
+          )}
+          {isOwner && (
+            <Button variant="outline" onClick={() => setShowSolutionSettings(true)} title="Worked solutions">
+              <BookOpen className="h-4 w-4" />
+              <span className="hidden sm:inline">Solutions{selectedDocument?.solutions_enabled ? "" : " (off)"}</span>
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => setShowMarkSchemeUpload(true)}
+            title={hasMarkScheme ? "Replace mark scheme" : "Attach mark scheme"}
+          >
+            <ClipboardCheck className="h-4 w-4" />
+            <span className="hidden sm:inline">{hasMarkScheme ? "Mark Scheme ✓" : "Mark Scheme"}</span>
+          </Button>
           {hasFileUrl && (
             <Button 
               variant="outline" 
@@ -165,6 +495,72 @@ export const QuestionsList = ({ onBack }: QuestionsListProps) => {
         </div>
       </div>
 
+      {/* Re-run OCR */}
+      <AlertDialog open={showReprocessConfirm} onOpenChange={setShowReprocessConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Re-run OCR on {selectedDocument?.filename}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Questions are extracted again and matched to the existing ones, so student answers stay attached.
+              The paper is hidden from students until you review the changes and publish it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleReprocess}>Re-run OCR</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Mark Scheme Upload */}
+      <Dialog open={showMarkSchemeUpload} onOpenChange={setShowMarkSchemeUpload}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Attach a mark scheme</DialogTitle>
+            <DialogDescription>
+              Upload the mark scheme or answer key for {selectedDocument?.filename}. Answers are matched to questions by number and used as the reference when grading.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedDocumentId && (
+            <DocumentUpload paperId={selectedDocumentId} onUploadComplete={handleMarkSchemeUploaded} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Grade Appeals */}
+      <Dialog open={showAppeals} onOpenChange={setShowAppeals}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Grade appeals</DialogTitle>
+            <DialogDescription>
+              Students think these answers to {selectedDocument?.filename} were graded wrongly. Keep the grade or change it; the student sees your decision and comment.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedDocumentId && showAppeals && (
+            <GradeAppeals documentId={selectedDocumentId} onResolved={handleAppealResolved} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Worked Solutions */}
+      <Dialog open={showSolutionSettings} onOpenChange={setShowSolutionSettings}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Worked solutions</DialogTitle>
+            <DialogDescription>
+              Students who answer a question in {selectedDocument?.filename} correctly, or get it wrong enough times, can reveal a checked step-by-step solution.
+            </DialogDescription>
+          </DialogHeader>
+          {selectedDocument && showSolutionSettings && (
+            <SolutionSettings
+              documentId={selectedDocument.id}
+              settings={selectedDocument}
+              onSaved={handleSolutionSettingsSaved}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Split View Container */}
       <div className="flex gap-4 h-[calc(100vh-180px)]">
         {/* PDF Viewer - Left Side */}
@@ -201,7 +597,13 @@ export const QuestionsList = ({ onBack }: QuestionsListProps) => {
           {/* Questions Summary */}
           <div className="bg-secondary/50 rounded-xl p-4 flex items-center justify-between sticky top-0 z-10">
             <p className="text-sm text-muted-foreground">
-              <span className="font-semibold text-foreground">{questions.length}</span> question{questions.length !== 1 ? "s" : ""} extracted
+              <span className="font-semibold text-foreground">{answerableCount}</span> question{answerableCount !== 1 ? "s" : ""} extracted
+              {totalMarks !== null && (
+                <>
+                  {" · "}
+                  <span className="font-semibold text-foreground">{earnedMarks} / {totalMarks}</span> marks
+                </>
+              )}
             </p>
             {!showPdfViewer && hasFileUrl && (
               <p className="text-xs text-muted-foreground">
@@ -211,14 +613,26 @@ export const QuestionsList = ({ onBack }: QuestionsListProps) => {
           </div>
 
           {/* Questions List */}
-          {questions.map((question) => (
-            <QuestionCard
-              key={question.id}
-              question={question}
-              onAnswerSubmit={handleAnswerSubmit}
-              documentUrl={selectedDocument?.file_url}
+          {isEditing && selectedDocumentId ? (
+            <QuestionEditor
+              documentId={selectedDocumentId}
+              questions={questions}
+              onQuestionsChange={handleQuestionsEdited}
             />
-          ))}
+          ) : (
+            questionTree.map((node) => (
+              <QuestionGroup
+                key={node.question.id}
+                node={node}
+                answers={answers}
+                hints={hints}
+                attempts={attempts}
+                onAnswerSubmit={handleAnswerSubmit}
+                documentUrl={selectedDocument?.file_url}
+                solutionAfterAttempts={selectedDocument?.solutions_enabled ? selectedDocument.solution_after_attempts : null}
+              />
+            ))
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SolutionSettingsValue {
+  solutions_enabled: boolean;
+  solution_after_attempts: number;
+}
+
+interface SolutionSettingsProps {
+  documentId: string;
+  settings: SolutionSettingsValue;
+  onSaved: (settings: SolutionSettingsValue) => void;
+}
+
+/**
+ * Whether students can reveal the paper's worked solutions, and how many wrong
+ * attempts they need first. A correct answer always unlocks the solution.
+ */
+export const SolutionSettings = ({ documentId, settings, onSaved }: SolutionSettingsProps) => {
+  const [enabled, setEnabled] = useState(settings.solutions_enabled);
+  const [afterAttempts, setAfterAttempts] = useState(String(settings.solution_after_attempts));
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const attempts = Number(afterAttempts);
+  const isValid = Number.isInteger(attempts) && attempts >= 1;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      const updated = { solutions_enabled: enabled, solution_after_attempts: attempts };
+      const { error } = await supabase.from("documents").update(updated).eq("id", documentId);
+
+      if (error) throw error;
+      onSaved(updated);
+      toast({
+        title: "Solution settings saved",
+        description: enabled ? `Solutions unlock after ${attempts} wrong attempt${attempts !== 1 ? "s" : ""} or a correct answer.` : "Students can't reveal solutions for this paper.",
+      });
+    } catch (error) {
+      console.error("Save solution settings error:", error);
+      toast({
+        title: "Couldn't save",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <Label htmlFor="solutions-enabled">Students can reveal worked solutions</Label>
+        <Switch id="solutions-enabled" checked={enabled} onCheckedChange={setEnabled} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="solution-after-attempts" className={enabled ? "" : "text-muted-foreground"}>
+          Wrong attempts before a solution unlocks
+        </Label>
+        <Input
+          id="solution-after-attempts"
+          type="number"
+          min={1}
+          value={afterAttempts}
+          onChange={(e) => setAfterAttempts(e.target.value)}
+          disabled={!enabled}
+          className="w-24"
+        />
+      </div>
+      <Button onClick={handleSave} disabled={isSaving || !isValid}>
+        {isSaving && <Loader2 className="h-4 w-4 animate-spin" />}
+        Save
+      </Button>
+    </div>
+  );
+};
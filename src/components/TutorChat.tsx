@@ -0,0 +1,204 @@
+import { useState, useEffect, useRef } from "react";
+import { Loader2, Send, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MathText } from "@/components/MathText";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+
+interface TutorMessage {
+  id: string;
+  role: "student" | "tutor";
+  content: string;
+  created_at: string;
+}
+
+interface TutorChatProps {
+  questionId: string;
+  documentUrl?: string | null;
+}
+
+const byDate = (a: TutorMessage, b: TutorMessage) => a.created_at.localeCompare(b.created_at);
+
+/**
+ * A conversation with the tutor about one question. It is saved per student and
+ * question, so closing the panel or reloading picks up where it left off.
+ */
+export const TutorChat = ({ questionId, documentUrl }: TutorChatProps) => {
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<TutorMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWaiting, setIsWaiting] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+  const { user } = useAuth();
+
+  const fetchConversation = async () => {
+    if (!user) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("tutor_conversations")
+        .select("id, tutor_messages(id, role, content, created_at)")
+        .eq("user_id", user.id)
+        .eq("question_id", questionId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        setConversationId(data.id);
+        setMessages(([...data.tutor_messages] as TutorMessage[]).sort(byDate));
+      }
+    } catch (error) {
+      console.error("Error loading tutor conversation:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchConversation();
+  }, [questionId]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "nearest" });
+  }, [messages.length, isWaiting]);
+
+  const startConversation = async (): Promise<string> => {
+    if (conversationId) return conversationId;
+
+    const { data, error } = await supabase
+      .from("tutor_conversations")
+      .insert({ user_id: user?.id, question_id: questionId })
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    setConversationId(data.id);
+    return data.id;
+  };
+
+  const requestReply = async (id: string) => {
+    setIsWaiting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("tutor-chat", {
+        body: {
+          conversationId: id,
+          documentUrl,
+        },
+      });
+
+      if (error) {
+        console.error("Tutor error:", error);
+        throw new Error(error.message || "The tutor couldn't reply");
+      }
+
+      setMessages((prev) => [...prev, data.message]);
+    } catch (error) {
+      toast({
+        title: "The tutor couldn't reply",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWaiting(false);
+    }
+  };
+
+  const handleSend = async () => {
+    const content = draft.trim();
+    if (!content || isWaiting) return;
+
+    setIsWaiting(true);
+    try {
+      const id = await startConversation();
+      const { data, error } = await supabase
+        .from("tutor_messages")
+        .insert({ conversation_id: id, role: "student", content })
+        .select("id, role, content, created_at")
+        .single();
+
+      if (error) throw error;
+
+      setMessages((prev) => [...prev, data as TutorMessage]);
+      setDraft("");
+      await requestReply(id);
+    } catch (error) {
+      console.error("Send message error:", error);
+      toast({
+        title: "Message not sent",
+        description: error instanceof Error ? error.message : "Something went wrong.",
+        variant: "destructive",
+      });
+      setIsWaiting(false);
+    }
+  };
+
+  // The last message is the student's when the tutor failed to answer it
+  const awaitingReply = messages.length > 0 && messages[messages.length - 1].role === "student";
+
+  return (
+    <div className="rounded-lg border border-border bg-secondary/20 animate-slide-up">
+      <div className="max-h-80 overflow-y-auto p-4 space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 text-primary animate-spin" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Tell the tutor where you're stuck. They'll help you work it out with questions, not by giving you the answer.
+          </p>
+        ) : (
+          messages.map((message) => (
+            <div key={message.id} className={`flex ${message.role === "student" ? "justify-end" : "justify-start"}`}>
+              <div
+                className={`max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                  message.role === "student" ? "bg-primary/10 text-foreground" : "bg-background border border-border text-foreground"
+                }`}
+              >
+                <MathText text={message.content} />
+              </div>
+            </div>
+          ))
+        )}
+        {isWaiting && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Tutor is thinking...
+          </div>
+        )}
+        {awaitingReply && !isWaiting && conversationId && (
+          <Button size="sm" variant="ghost" onClick={() => requestReply(conversationId)}>
+            <RotateCcw className="h-4 w-4" />
+            Ask again
+          </Button>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="flex gap-2 border-t border-border p-3">
+        <Textarea
+          placeholder="Ask the tutor..."
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          className="min-h-[44px] resize-none bg-background"
+          disabled={isWaiting || isLoading}
+        />
+        <Button size="icon" onClick={handleSend} disabled={isWaiting || isLoading || !draft.trim()} aria-label="Send message">
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import { useEffect, useMemo, useRef } from "react";
+import { Camera, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface WorkingPhotosProps {
+  photos: File[];
+  onChange: (photos: File[]) => void;
+  disabled?: boolean;
+}
+
+// Enough for a page or two of working without making grading slow
+const MAX_WORKING_PHOTOS = 4;
+
+/**
+ * Attaches photos of handwritten working to an attempt. On a phone the picker
+ * offers the camera directly.
+ */
+export const WorkingPhotos = ({ photos, onChange, disabled }: WorkingPhotosProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previews = useMemo(() => photos.map((photo) => URL.createObjectURL(photo)), [photos]);
+
+  useEffect(() => () => previews.forEach((url) => URL.revokeObjectURL(url)), [previews]);
+
+  const handleFiles = (files: FileList | null) => {
+    const images = Array.from(files ?? []).filter((file) => file.type.startsWith("image/"));
+    onChange([...photos, ...images].slice(0, MAX_WORKING_PHOTOS));
+    // Let the same file be picked again after removing it
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  return (
+    <div className="space-y-2">
+      {photos.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {previews.map((url, index) => (
+            <div key={url} className="relative">
+              <img
+                src={url}
+                alt={`Working photo ${index + 1}`}
+                className="h-20 w-20 rounded-lg border border-border object-cover"
+              />
+              <button
+                onClick={() => onChange(photos.filter((_, i) => i !== index))}
+                disabled={disabled}
+                className="absolute -right-2 -top-2 flex h-5 w-5 items-center justify-center rounded-full bg-destructive text-destructive-foreground"
+                aria-label={`Remove photo ${index + 1}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || photos.length >= MAX_WORKING_PHOTOS}
+      >
+        <Camera className="h-4 w-4" />
+        {photos.length > 0 ? `Add photo (${photos.length}/${MAX_WORKING_PHOTOS})` : "Attach photo of working"}
+      </Button>
+    </div>
+  );
+};
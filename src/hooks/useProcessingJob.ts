@@ -0,0 +1,53 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ProcessingJob = Tables<"processing_jobs">;
+
+/**
+ * Follows a processing job row live, so the UI can show the worker's progress.
+ */
+export const useProcessingJob = (jobId: string | null) => {
+  const [job, setJob] = useState<ProcessingJob | null>(null);
+
+  useEffect(() => {
+    if (!jobId) {
+      setJob(null);
+      return;
+    }
+
+    const fetchJob = async () => {
+      const { data, error } = await supabase
+        .from("processing_jobs")
+        .select("*")
+        .eq("id", jobId)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error fetching job:", error);
+        return;
+      }
+      if (data) setJob(data);
+    };
+
+    const channel = supabase
+      .channel(`processing-job-${jobId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "processing_jobs", filter: `id=eq.${jobId}` },
+        (payload) => setJob(payload.new as ProcessingJob)
+      )
+      .subscribe((status) => {
+        // Catch up on anything that changed before the subscription was live
+        if (status === "SUBSCRIBED") {
+          fetchJob();
+        }
+      });
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [jobId]);
+
+  return job;
+};
@@ -14,12 +14,88 @@ export type Database = {
   }
   public: {
     Tables: {
+      answer_photos: {
+        Row: {
+          answer_id: string
+          created_at: string
+          id: string
+          image_url: string
+          sort_order: number
+          storage_path: string
+        }
+        Insert: {
+          answer_id: string
+          created_at?: string
+          id?: string
+          image_url: string
+          sort_order?: number
+          storage_path: string
+        }
+        Update: {
+          answer_id?: string
+          created_at?: string
+          id?: string
+          image_url?: string
+          sort_order?: number
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_photos_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "student_answers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      answer_steps: {
+        Row: {
+          answer_id: string
+          content: string
+          created_at: string
+          id: string
+          is_correct: boolean | null
+          step_number: number
+        }
+        Insert: {
+          answer_id: string
+          content: string
+          created_at?: string
+          id?: string
+          is_correct?: boolean | null
+          step_number: number
+        }
+        Update: {
+          answer_id?: string
+          content?: string
+          created_at?: string
+          id?: string
+          is_correct?: boolean | null
+          step_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_steps_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "student_answers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           file_url: string | null
           filename: string
           id: string
+          kind: string
+          page_count: number | null
+          paper_id: string | null
+          solution_after_attempts: number
+          solutions_enabled: boolean
           status: string
+          total_marks: number | null
           uploaded_at: string
           user_id: string | null
         }
@@ -27,7 +103,13 @@ export type Database = {
           file_url?: string | null
           filename: string
           id?: string
+          kind?: string
+          page_count?: number | null
+          paper_id?: string | null
+          solution_after_attempts?: number
+          solutions_enabled?: boolean
           status?: string
+          total_marks?: number | null
           uploaded_at?: string
           user_id?: string | null
         }
@@ -35,11 +117,371 @@ export type Database = {
           file_url?: string | null
           filename?: string
           id?: string
+          kind?: string
+          page_count?: number | null
+          paper_id?: string | null
+          solution_after_attempts?: number
+          solutions_enabled?: boolean
           status?: string
+          total_marks?: number | null
           uploaded_at?: string
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "documents_paper_id_fkey"
+            columns: ["paper_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      evaluation_cache: {
+        Row: {
+          answer_key: string
+          created_at: string
+          evaluation: Json
+          hit_count: number
+          id: string
+          last_used_at: string | null
+          model: string | null
+          question_id: string
+          question_version: string
+          source_answer_id: string | null
+        }
+        Insert: {
+          answer_key: string
+          created_at?: string
+          evaluation: Json
+          hit_count?: number
+          id?: string
+          last_used_at?: string | null
+          model?: string | null
+          question_id: string
+          question_version: string
+          source_answer_id?: string | null
+        }
+        Update: {
+          answer_key?: string
+          created_at?: string
+          evaluation?: Json
+          hit_count?: number
+          id?: string
+          last_used_at?: string | null
+          model?: string | null
+          question_id?: string
+          question_version?: string
+          source_answer_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "evaluation_cache_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evaluation_cache_source_answer_id_fkey"
+            columns: ["source_answer_id"]
+            isOneToOne: false
+            referencedRelation: "student_answers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      figures: {
+        Row: {
+          bbox: Json
+          created_at: string
+          document_id: string
+          id: string
+          image_url: string
+          kind: string
+          label: string | null
+          page_number: number
+        }
+        Insert: {
+          bbox: Json
+          created_at?: string
+          document_id: string
+          id?: string
+          image_url: string
+          kind?: string
+          label?: string | null
+          page_number: number
+        }
+        Update: {
+          bbox?: Json
+          created_at?: string
+          document_id?: string
+          id?: string
+          image_url?: string
+          kind?: string
+          label?: string | null
+          page_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "figures_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_appeals: {
+        Row: {
+          answer_id: string
+          comment: string
+          created_at: string
+          id: string
+          resolved_at: string | null
+          reviewer_comment: string | null
+          reviewer_id: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          answer_id: string
+          comment: string
+          created_at?: string
+          id?: string
+          resolved_at?: string | null
+          reviewer_comment?: string | null
+          reviewer_id?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          answer_id?: string
+          comment?: string
+          created_at?: string
+          id?: string
+          resolved_at?: string | null
+          reviewer_comment?: string | null
+          reviewer_id?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_appeals_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "student_answers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grade_changes: {
+        Row: {
+          answer_id: string
+          appeal_id: string | null
+          changed_by: string | null
+          created_at: string
+          id: string
+          is_correct: boolean | null
+          max_score: number | null
+          note: string | null
+          previous_is_correct: boolean | null
+          previous_score: number | null
+          score: number | null
+          source: string
+        }
+        Insert: {
+          answer_id: string
+          appeal_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          is_correct?: boolean | null
+          max_score?: number | null
+          note?: string | null
+          previous_is_correct?: boolean | null
+          previous_score?: number | null
+          score?: number | null
+          source: string
+        }
+        Update: {
+          answer_id?: string
+          appeal_id?: string | null
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          is_correct?: boolean | null
+          max_score?: number | null
+          note?: string | null
+          previous_is_correct?: boolean | null
+          previous_score?: number | null
+          score?: number | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grade_changes_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "student_answers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "grade_changes_appeal_id_fkey"
+            columns: ["appeal_id"]
+            isOneToOne: false
+            referencedRelation: "grade_appeals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      grading_runs: {
+        Row: {
+          answer_id: string
+          created_at: string
+          error: string | null
+          from_cache: boolean
+          graded_by: string
+          id: string
+          model: string | null
+          prompt: Json | null
+          prompt_version: string | null
+          raw_response: string | null
+          result: Json | null
+        }
+        Insert: {
+          answer_id: string
+          created_at?: string
+          error?: string | null
+          from_cache?: boolean
+          graded_by: string
+          id?: string
+          model?: string | null
+          prompt?: Json | null
+          prompt_version?: string | null
+          raw_response?: string | null
+          result?: Json | null
+        }
+        Update: {
+          answer_id?: string
+          created_at?: string
+          error?: string | null
+          from_cache?: boolean
+          graded_by?: string
+          id?: string
+          model?: string | null
+          prompt?: Json | null
+          prompt_version?: string | null
+          raw_response?: string | null
+          result?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "grading_runs_answer_id_fkey"
+            columns: ["answer_id"]
+            isOneToOne: false
+            referencedRelation: "student_answers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hints: {
+        Row: {
+          content: string
+          created_at: string
+          hint_number: number
+          id: string
+          level: string | null
+          question_id: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          hint_number: number
+          id?: string
+          level?: string | null
+          question_id: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          hint_number?: number
+          id?: string
+          level?: string | null
+          question_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hints_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          current_page: number | null
+          document_id: string
+          file_url: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          result: Json | null
+          run_after: string
+          stage: string
+          total_pages: number | null
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          current_page?: number | null
+          document_id: string
+          file_url: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          result?: Json | null
+          run_after?: string
+          stage?: string
+          total_pages?: number | null
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          current_page?: number | null
+          document_id?: string
+          file_url?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          result?: Json | null
+          run_after?: string
+          stage?: string
+          total_pages?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -59,32 +501,101 @@ export type Database = {
         }
         Relationships: []
       }
+      question_figures: {
+        Row: {
+          figure_id: string
+          question_id: string
+        }
+        Insert: {
+          figure_id: string
+          question_id: string
+        }
+        Update: {
+          figure_id?: string
+          question_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_figures_figure_id_fkey"
+            columns: ["figure_id"]
+            isOneToOne: false
+            referencedRelation: "figures"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "question_figures_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       questions: {
         Row: {
+          answer_options: Json | null
+          answer_type: string | null
+          answer_unit: string | null
+          approved: boolean
+          confidence: number | null
           created_at: string
           document_id: string | null
           id: string
+          mark_scheme_notes: string | null
+          marks: number | null
           page_number: number | null
+          parent_id: string | null
+          precision_digits: number | null
+          precision_type: string | null
           question_number: string
           question_text: string
+          reference_answer: string | null
+          review_notes: string | null
+          rubric: Json | null
           sort_order: number | null
         }
         Insert: {
+          answer_options?: Json | null
+          answer_type?: string | null
+          answer_unit?: string | null
+          approved?: boolean
+          confidence?: number | null
           created_at?: string
           document_id?: string | null
           id?: string
+          mark_scheme_notes?: string | null
+          marks?: number | null
           page_number?: number | null
+          parent_id?: string | null
+          precision_digits?: number | null
+          precision_type?: string | null
           question_number: string
           question_text: string
+          reference_answer?: string | null
+          review_notes?: string | null
+          rubric?: Json | null
           sort_order?: number | null
         }
         Update: {
+          answer_options?: Json | null
+          answer_type?: string | null
+          answer_unit?: string | null
+          approved?: boolean
+          confidence?: number | null
           created_at?: string
           document_id?: string | null
           id?: string
+          mark_scheme_notes?: string | null
+          marks?: number | null
           page_number?: number | null
+          parent_id?: string | null
+          precision_digits?: number | null
+          precision_type?: string | null
           question_number?: string
           question_text?: string
+          reference_answer?: string | null
+          review_notes?: string | null
+          rubric?: Json | null
           sort_order?: number | null
         }
         Relationships: [
@@ -95,35 +606,75 @@ export type Database = {
             referencedRelation: "documents"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "questions_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       student_answers: {
         Row: {
           feedback: string | null
+          first_wrong_step: number | null
+          graded_by: string | null
+          grading_error: string | null
+          grading_status: string
+          hint_penalty: number
+          hints_used: number
           id: string
           is_correct: boolean | null
+          max_score: number | null
           question_id: string
+          rubric_marks: Json | null
+          score: number | null
           student_answer: string
           submitted_at: string
+          transcription_confirmed: boolean
           user_id: string | null
+          working_transcription: string | null
         }
         Insert: {
           feedback?: string | null
+          first_wrong_step?: number | null
+          graded_by?: string | null
+          grading_error?: string | null
+          grading_status?: string
+          hint_penalty?: number
+          hints_used?: number
           id?: string
           is_correct?: boolean | null
+          max_score?: number | null
           question_id: string
+          rubric_marks?: Json | null
+          score?: number | null
           student_answer: string
           submitted_at?: string
+          transcription_confirmed?: boolean
           user_id?: string | null
+          working_transcription?: string | null
         }
         Update: {
           feedback?: string | null
+          first_wrong_step?: number | null
+          graded_by?: string | null
+          grading_error?: string | null
+          grading_status?: string
+          hint_penalty?: number
+          hints_used?: number
           id?: string
           is_correct?: boolean | null
+          max_score?: number | null
           question_id?: string
+          rubric_marks?: Json | null
+          score?: number | null
           student_answer?: string
           submitted_at?: string
+          transcription_confirmed?: boolean
           user_id?: string | null
+          working_transcription?: string | null
         }
         Relationships: [
           {
@@ -135,12 +686,190 @@ export type Database = {
           },
         ]
       }
+      tutor_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          question_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          question_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          question_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tutor_conversations_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tutor_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          role: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          role: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tutor_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "tutor_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      worked_solutions: {
+        Row: {
+          created_at: string
+          final_answer: string
+          id: string
+          model: string | null
+          question_id: string
+          question_version: string
+          steps: Json
+        }
+        Insert: {
+          created_at?: string
+          final_answer: string
+          id?: string
+          model?: string | null
+          question_id: string
+          question_version: string
+          steps: Json
+        }
+        Update: {
+          created_at?: string
+          final_answer?: string
+          id?: string
+          model?: string | null
+          question_id?: string
+          question_version?: string
+          steps?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "worked_solutions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: true
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      hint_usage: {
+        Row: {
+          answered_correctly: boolean | null
+          document_id: string | null
+          first_hint_at: string | null
+          hints_used: number | null
+          last_hint_at: string | null
+          question_id: string | null
+          user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hints_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "questions_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      claim_processing_job: {
+        Args: {
+          p_job_id?: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          current_page: number | null
+          document_id: string
+          file_url: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          result: Json | null
+          run_after: string
+          stage: string
+          total_pages: number | null
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "processing_jobs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      merge_questions: {
+        Args: {
+          p_keep_id: string
+          p_remove_id: string
+        }
+        Returns: undefined
+      }
+      reorder_questions: {
+        Args: {
+          p_document_id: string
+          p_question_ids: string[]
+        }
+        Returns: undefined
+      }
+      resolve_grade_appeal: {
+        Args: {
+          p_appeal_id: string
+          p_comment?: string
+          p_is_correct?: boolean
+          p_overturn: boolean
+          p_score?: number
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,53 @@
+// Mirrors the answer types process-document classifies questions into (questions.answer_type)
+export type AnswerType =
+  | "multiple_choice"
+  | "numeric"
+  | "expression"
+  | "equation"
+  | "inequality"
+  | "coordinates"
+  | "vector"
+  | "set"
+  | "true_false";
+
+export interface AnswerOption {
+  label: string;
+  text: string;
+}
+
+const ANSWER_TYPES: AnswerType[] = [
+  "multiple_choice",
+  "numeric",
+  "expression",
+  "equation",
+  "inequality",
+  "coordinates",
+  "vector",
+  "set",
+  "true_false",
+];
+
+export function parseAnswerType(value: unknown): AnswerType | null {
+  return ANSWER_TYPES.includes(value as AnswerType) ? (value as AnswerType) : null;
+}
+
+export function parseAnswerOptions(value: unknown): AnswerOption[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((option): option is AnswerOption => !!option?.label && !!option?.text);
+}
+
+/**
+ * Splits "(3, -2)" into its components, padded to at least `count`.
+ */
+export function splitTuple(answer: string, count: number): string[] {
+  const inner = answer.trim().replace(/^\((.*)\)$/, "$1");
+  const parts = inner ? inner.split(",").map((part) => part.trim()) : [];
+  return [...parts, ...Array(Math.max(0, count - parts.length)).fill("")];
+}
+
+/**
+ * "(3, -2)", or "" until every component is filled in.
+ */
+export function joinTuple(parts: string[]): string {
+  return parts.every((part) => part.trim()) ? `(${parts.map((part) => part.trim()).join(", ")})` : "";
+}
@@ -0,0 +1,33 @@
+export type AppealStatus = "open" | "confirmed" | "overturned";
+
+export interface GradeAppeal {
+  id: string;
+  status: AppealStatus;
+  comment: string;
+  reviewer_comment: string | null;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+/**
+ * The most recent appeal on an answer, if any.
+ */
+export function latestAppeal(appeals: GradeAppeal[] | null | undefined): GradeAppeal | null {
+  if (!appeals || appeals.length === 0) return null;
+  return [...appeals].sort((a, b) => b.created_at.localeCompare(a.created_at))[0];
+}
+
+/**
+ * What the student sees about their appeal, e.g. "A reviewer changed this grade: ...".
+ */
+export function describeAppeal(appeal: GradeAppeal): string {
+  const comment = appeal.reviewer_comment ? `: ${appeal.reviewer_comment}` : ".";
+  switch (appeal.status) {
+    case "open":
+      return "Appeal sent. A reviewer will look at this grade.";
+    case "confirmed":
+      return `A reviewer kept this grade${comment}`;
+    case "overturned":
+      return `A reviewer changed this grade${comment}`;
+  }
+}
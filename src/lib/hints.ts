@@ -0,0 +1,32 @@
+// Mirrors the hint levels get-hint gives, in order (supabase/functions/_shared/hints.ts)
+export type HintLevel = "nudge" | "concept" | "first_step" | "next_step";
+
+export interface HintLevelSpec {
+  level: HintLevel;
+  label: string;
+  // Share of the question's marks the hint costs
+  penalty: number;
+}
+
+export const HINT_LEVELS: HintLevelSpec[] = [
+  { level: "nudge", label: "Nudge", penalty: 0.1 },
+  { level: "concept", label: "Relevant concept", penalty: 0.1 },
+  { level: "first_step", label: "First step", penalty: 0.2 },
+  { level: "next_step", label: "Worked next step", penalty: 0.2 },
+];
+
+export const MAX_HINTS = HINT_LEVELS.length;
+
+export function nextHintLevel(hintsGiven: number): HintLevelSpec | null {
+  return HINT_LEVELS[hintsGiven] ?? null;
+}
+
+// "10% of the marks"
+export function describePenalty(spec: HintLevelSpec): string {
+  return `${Math.round(spec.penalty * 100)}% of the marks`;
+}
+
+// "0.4 marks off for 3 hints"
+export function describeHintPenalty(penalty: number, hintsUsed: number): string {
+  return `${penalty} mark${penalty === 1 ? "" : "s"} off for ${hintsUsed} hint${hintsUsed === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,189 @@
+export interface TextSegment {
+  text: string;
+  // LaTeX to typeset, or null for plain text
+  latex: string | null;
+  display: boolean;
+}
+
+// $$...$$, $...$, \(...\) and \[...\]. A "$" followed by a space or closing before a
+// digit is a price ("$5 and $10"), not maths.
+const DELIMITED_MATH = /\$\$([\s\S]+?)\$\$|\$(?!\s)([^$\n]+?)(?<!\s)\$(?!\d)|\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g;
+
+// A word in the older plain notation: "x^(-3)", "sqrt(2)/3", "10^5"
+const PLAIN_MATH = /[\w.()/*+-]*(?:\^|sqrt\()[\w.()/*+^-]*/g;
+
+/**
+ * Splits question text, hints and feedback into plain text and maths to typeset.
+ * Text stored before questions were extracted as LaTeX has no delimiters, so
+ * its "^" and "sqrt()" words are converted instead.
+ */
+export function splitMath(text: string): TextSegment[] {
+  DELIMITED_MATH.lastIndex = 0;
+  if (DELIMITED_MATH.test(text)) {
+    return splitMatches(text, DELIMITED_MATH, (match) => {
+      const display = match[1] !== undefined || match[4] !== undefined;
+      return { latex: match[1] ?? match[2] ?? match[3] ?? match[4], display };
+    });
+  }
+
+  return splitMatches(text, PLAIN_MATH, (match) => {
+    const { leading, word, trailing } = trimWord(match[0]);
+    return { latex: plainToLatex(word), display: false, leading, trailing };
+  });
+}
+
+function splitMatches(
+  text: string,
+  pattern: RegExp,
+  toMath: (match: RegExpExecArray) => { latex: string; display: boolean; leading?: string; trailing?: string }
+): TextSegment[] {
+  const segments: TextSegment[] = [];
+  const pushText = (plain: string) => {
+    if (plain) segments.push({ text: plain, latex: null, display: false });
+  };
+
+  let last = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    const { latex, display, leading = "", trailing = "" } = toMath(match);
+    pushText(text.slice(last, match.index) + leading);
+    segments.push({ text: match[0].slice(leading.length, match[0].length - trailing.length), latex, display });
+    pushText(trailing);
+    last = match.index + match[0].length;
+  }
+  pushText(text.slice(last));
+  return segments;
+}
+
+// Sentence punctuation and unmatched brackets belong to the text around the word
+function trimWord(word: string): { leading: string; word: string; trailing: string } {
+  let start = 0;
+  while (word[start] === "(" && count(word.slice(start), "(") > count(word, ")")) start++;
+  let end = word.length;
+  for (;;) {
+    const last = word[end - 1];
+    const head = word.slice(start, end);
+    if (last === "." || last === ",") {
+      end--;
+    } else if (last === ")" && count(head, "(") < count(head, ")")) {
+      end--;
+    } else {
+      break;
+    }
+  }
+  return { leading: word.slice(0, start), word: word.slice(start, end), trailing: word.slice(end) };
+}
+
+function count(text: string, char: string): number {
+  return text.split(char).length - 1;
+}
+
+/**
+ * Converts the plain notation ("x^(-3)", "sqrt(2)/3", "3*x") to LaTeX.
+ */
+export function plainToLatex(expr: string): string {
+  let out = "";
+  let i = 0;
+  while (i < expr.length) {
+    if (expr.startsWith("sqrt(", i)) {
+      const end = closingParen(expr, i + 4);
+      out += `\\sqrt{${plainToLatex(expr.slice(i + 5, end))}}`;
+      i = end + 1;
+    } else if (expr[i] === "^" && expr[i + 1] === "(") {
+      const end = closingParen(expr, i + 1);
+      out += `^{${plainToLatex(expr.slice(i + 2, end))}}`;
+      i = end + 1;
+    } else if (expr[i] === "^") {
+      // "x^2y" is x squared times y
+      const exponent = /^-?(\d+(\.\d+)?|[a-zA-Z])?/.exec(expr.slice(i + 1))![0];
+      out += `^{${exponent}}`;
+      i += 1 + exponent.length;
+    } else if (expr[i] === "*") {
+      out += " \\times ";
+      i++;
+    } else {
+      out += expr[i];
+      i++;
+    }
+  }
+  return withFractions(out);
+}
+
+// Index of the ")" matching the "(" at `open`, or the end of an unbalanced expression
+function closingParen(expr: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < expr.length; i++) {
+    if (expr[i] === "(") depth++;
+    if (expr[i] === ")" && --depth === 0) return i;
+  }
+  return expr.length;
+}
+
+// Index of the bracket matching the closing one at `close`, searching backwards
+function openingBracket(text: string, close: number): number {
+  const pair = text[close] === ")" ? "(" : "{";
+  let depth = 0;
+  for (let i = close; i >= 0; i--) {
+    if (text[i] === text[close]) depth++;
+    if (text[i] === pair && --depth === 0) return i;
+  }
+  return 0;
+}
+
+// Index just past the bracket matching the opening one at `open`
+function closingBracket(text: string, open: number): number {
+  const pair = text[open] === "(" ? ")" : "}";
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === text[open]) depth++;
+    if (text[i] === pair && --depth === 0) return i + 1;
+  }
+  return text.length;
+}
+
+// Start of the operand ending just before `end`: "(x+1)", "\sqrt{2}", "x^{2}" or "12"
+function operandStart(text: string, end: number): number {
+  const last = text[end - 1];
+  if (last === ")") return openingBracket(text, end - 1);
+  if (last === "}") {
+    const open = openingBracket(text, end - 1);
+    if (text[open - 1] === "^") return operandStart(text, open - 1);
+    const command = /\\[a-zA-Z]+$/.exec(text.slice(0, open));
+    return command ? open - command[0].length : open;
+  }
+  const word = /[\w.]+$/.exec(text.slice(0, end));
+  return word ? end - word[0].length : end;
+}
+
+// End of the operand starting at `start`
+function operandEnd(text: string, start: number): number {
+  let end = start;
+  if (text[start] === "(") {
+    end = closingBracket(text, start);
+  } else if (text[start] === "\\") {
+    end = start + /^\\[a-zA-Z]*/.exec(text.slice(start))![0].length;
+    if (text[end] === "{") end = closingBracket(text, end);
+  } else {
+    end = start + (/^[\w.]*/.exec(text.slice(start))?.[0].length ?? 0);
+  }
+  if (text[end] === "^" && text[end + 1] === "{") end = closingBracket(text, end + 1);
+  return end;
+}
+
+// "(x+1)" as a numerator or denominator loses its brackets
+function unwrap(operand: string): string {
+  return operand.startsWith("(") && closingBracket(operand, 0) === operand.length ? operand.slice(1, -1) : operand;
+}
+
+function withFractions(latex: string): string {
+  let text = latex;
+  for (let slash = text.indexOf("/"); slash !== -1; slash = text.indexOf("/", slash + 1)) {
+    const start = operandStart(text, slash);
+    const end = operandEnd(text, slash + 1);
+    if (start === slash || end === slash + 1) continue;
+    const fraction = `\\frac{${unwrap(text.slice(start, slash))}}{${unwrap(text.slice(slash + 1, end))}}`;
+    text = text.slice(0, start) + fraction + text.slice(end);
+    slash = start + fraction.length - 1;
+  }
+  return text;
+}
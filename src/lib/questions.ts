@@ -0,0 +1,47 @@
+export interface QuestionNode<T> {
+  question: T;
+  children: QuestionNode<T>[];
+}
+
+/**
+ * Nests question parts under their stems. Input is expected in sort_order,
+ * which is preserved among siblings. Parts whose stem is missing are shown top-level.
+ */
+export function buildQuestionTree<T extends { id: string; parent_id: string | null }>(
+  questions: T[]
+): QuestionNode<T>[] {
+  const nodes = new Map<string, QuestionNode<T>>(
+    questions.map((question) => [question.id, { question, children: [] }])
+  );
+  const roots: QuestionNode<T>[] = [];
+
+  for (const question of questions) {
+    const node = nodes.get(question.id)!;
+    const parent = question.parent_id ? nodes.get(question.parent_id) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * Questions a student can actually answer: stems with parts are context only.
+ */
+export function answerableQuestions<T>(nodes: QuestionNode<T>[]): T[] {
+  return nodes.flatMap((node) =>
+    node.children.length > 0 ? answerableQuestions(node.children) : [node.question]
+  );
+}
+
+/**
+ * Paper total from the answerable questions' marks, or null when the paper
+ * has no printed mark allocations. Mirrors how process-document computes it.
+ */
+export function totalMarks<T extends { marks: number | null }>(nodes: QuestionNode<T>[]): number | null {
+  const marked = answerableQuestions(nodes).filter((q) => q.marks !== null);
+  return marked.length > 0 ? marked.reduce((sum, q) => sum + (q.marks ?? 0), 0) : null;
+}
@@ -0,0 +1,33 @@
+// One rubric line of a graded answer, as evaluate-answer stores it in student_answers.rubric_marks
+export interface RubricMark {
+  type: "method" | "accuracy";
+  marks: number;
+  description: string;
+  awarded: number;
+}
+
+const markCount = (count: number, type: RubricMark["type"]) =>
+  count === 1 ? `${type} mark` : `${count} ${type} marks`;
+
+/**
+ * Describes each rubric line without giving its content away,
+ * e.g. "method mark awarded, accuracy mark lost".
+ */
+export function describeMarks(marks: RubricMark[]): string {
+  return marks
+    .map((line) => {
+      if (line.awarded >= line.marks) return `${markCount(line.marks, line.type)} awarded`;
+      if (line.awarded <= 0) return `${markCount(line.marks, line.type)} lost`;
+      return `${line.awarded} of ${line.marks} ${line.type} marks awarded`;
+    })
+    .join(", ");
+}
+
+/**
+ * "2/3 — method mark awarded, accuracy mark lost", or just "2/3" when there
+ * is no breakdown to describe.
+ */
+export function scoreSummary(score: number, maxScore: number, marks: RubricMark[] | null): string {
+  const breakdown = marks && marks.length > 1 ? describeMarks(marks) : "";
+  return breakdown ? `${score}/${maxScore} — ${breakdown}` : `${score}/${maxScore}`;
+}
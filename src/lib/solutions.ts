@@ -0,0 +1,28 @@
+// Mirrors the unlock rule worked-solution enforces (supabase/functions/worked-solution/unlock.ts)
+export interface AttemptCount {
+  wrong: number;
+  correct: boolean;
+}
+
+export interface WorkedSolution {
+  steps: string[];
+  finalAnswer: string;
+}
+
+export const NO_ATTEMPTS: AttemptCount = { wrong: 0, correct: false };
+
+// Answers that could not be graded do not count either way
+export function countAttempt(attempts: AttemptCount, isCorrect: boolean | null): AttemptCount {
+  if (isCorrect === null) return attempts;
+  return isCorrect ? { ...attempts, correct: true } : { ...attempts, wrong: attempts.wrong + 1 };
+}
+
+export function solutionUnlocked(afterAttempts: number, attempts: AttemptCount): boolean {
+  return attempts.correct || attempts.wrong >= afterAttempts;
+}
+
+// "Unlocks after 2 more wrong attempts or a correct answer"
+export function describeUnlock(afterAttempts: number, attempts: AttemptCount): string {
+  const remaining = Math.max(afterAttempts - attempts.wrong, 0);
+  return `Unlocks after ${remaining} more wrong attempt${remaining !== 1 ? "s" : ""} or a correct answer`;
+}
@@ -0,0 +1,77 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * A failed streamed call, with the HTTP status the function gave (e.g. 502 when
+ * the model's reply was unusable), whether it failed before or during the stream.
+ */
+export class FunctionStreamError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "FunctionStreamError";
+  }
+}
+
+// One "event: name\ndata: {json}" block of a server-sent event stream
+function parseEvent(block: string): { event: string; data: unknown } | null {
+  let event = "message";
+  const data: string[] = [];
+  for (const line of block.split("\n")) {
+    if (line.startsWith("event:")) event = line.slice(6).trim();
+    else if (line.startsWith("data:")) data.push(line.slice(5).trim());
+  }
+  return data.length > 0 ? { event, data: JSON.parse(data.join("\n")) } : null;
+}
+
+/**
+ * Calls an edge function with `stream: true`, passing each piece of text to
+ * onDelta as it arrives. Returns the function's final payload, the same one it
+ * would have sent without streaming, and an error instead when it fails.
+ */
+export async function streamFunction<T>(
+  name: string,
+  body: Record<string, unknown>,
+  onDelta: (text: string) => void
+): Promise<{ data: T | null; error: FunctionStreamError | null }> {
+  const key = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: "POST",
+    headers: {
+      apikey: key,
+      Authorization: `Bearer ${session?.access_token ?? key}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ...body, stream: true }),
+  });
+
+  // Requests rejected before streaming started get a plain JSON error
+  if (!response.ok || !response.body) {
+    const failure = await response.json().catch(() => null);
+    return { data: null, error: new FunctionStreamError(failure?.error || `${name} failed: ${response.status}`, response.status) };
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const blocks = buffer.split("\n\n");
+    buffer = blocks.pop() ?? "";
+    for (const block of blocks) {
+      const message = parseEvent(block);
+      if (!message) continue;
+
+      const data = message.data as { text?: string; error?: string; status?: number };
+      if (message.event === "delta" && data.text) onDelta(data.text);
+      if (message.event === "done") return { data: message.data as T, error: null };
+      if (message.event === "error") {
+        return { data: null, error: new FunctionStreamError(data.error || `${name} failed`, data.status ?? 500) };
+      }
+    }
+  }
+
+  return { data: null, error: new FunctionStreamError(`${name} ended without a result`, 500) };
+}
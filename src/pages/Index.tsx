@@ -4,12 +4,14 @@ import { BookOpen, Upload, FileQuestion, Brain, Lightbulb, CheckCircle, LogOut,
 import { Button } from "@/components/ui/button";
 import { DocumentUpload } from "@/components/DocumentUpload";
 import { QuestionsList } from "@/components/QuestionsList";
+import { DocumentReview } from "@/components/DocumentReview";
 import { useAuth } from "@/hooks/useAuth";
 
-type View = "home" | "upload" | "questions";
+type View = "home" | "upload" | "questions" | "review";
 
 const Index = () => {
   const [currentView, setCurrentView] = useState<View>("home");
+  const [reviewDocumentId, setReviewDocumentId] = useState<string | null>(null);
   const { user, loading, signOut } = useAuth();
   const navigate = useNavigate();
 
@@ -36,6 +38,11 @@ const Index = () => {
     return null;
   }
 
+  const openReview = (documentId: string) => {
+    setReviewDocumentId(documentId);
+    setCurrentView("review");
+  };
+
   const features = [
     {
       icon: Upload,
@@ -77,7 +84,7 @@ const Index = () => {
           </header>
 
           {/* Upload Component */}
-          <DocumentUpload onUploadComplete={() => setCurrentView("questions")} />
+          <DocumentUpload onUploadComplete={openReview} />
 
           {/* Navigation */}
           <div className="flex justify-center gap-4 mt-8">
@@ -112,7 +119,31 @@ const Index = () => {
           </header>
 
           {/* Questions List */}
-          <QuestionsList onBack={() => setCurrentView("upload")} />
+          <QuestionsList onBack={() => setCurrentView("upload")} onReview={openReview} />
+        </div>
+      </main>
+    );
+  }
+
+  if (currentView === "review" && reviewDocumentId) {
+    return (
+      <main className="min-h-screen bg-background">
+        <div className="container max-w-6xl mx-auto px-4 py-8 sm:py-12">
+          {/* Header */}
+          <header className="text-center mb-8">
+            <h1 className="text-3xl sm:text-4xl font-bold text-foreground mb-3">
+              Review Extracted Questions
+            </h1>
+            <p className="text-muted-foreground max-w-lg mx-auto">
+              Check each question against the original page and approve it before students see it.
+            </p>
+          </header>
+
+          <DocumentReview
+            documentId={reviewDocumentId}
+            onBack={() => setCurrentView("questions")}
+            onPublished={() => setCurrentView("questions")}
+          />
         </div>
       </main>
     );
@@ -0,0 +1,36 @@
+/**
+ * Which provider and model each edge function uses.
+ *
+ * Defaults live here; a deployment can override them without a code change:
+ *   AI_PROVIDER=lovable|fake              provider for every function
+ *   AI_MODEL_<FUNCTION>=<model>           e.g. AI_MODEL_EVALUATE_ANSWER=google/gemini-2.5-pro
+ *   AI_FAKE_SCRIPT=<path to JSON file>    scripted replies for the fake provider (see ai-fake.ts)
+ */
+export type AiFunctionName = "process-document" | "evaluate-answer" | "get-hint" | "tutor-chat" | "worked-solution";
+
+export type AiProviderName = "lovable" | "fake";
+
+export const DEFAULT_AI_PROVIDER: AiProviderName = "lovable";
+
+export const AI_MODELS: Record<AiFunctionName, string> = {
+  // Vision model: reads whole page images
+  "process-document": "google/gemini-2.5-flash",
+  "evaluate-answer": "google/gemini-2.5-flash",
+  "get-hint": "google/gemini-2.5-flash",
+  "tutor-chat": "google/gemini-2.5-flash",
+  // Written and checked once per question, then cached, so the stronger model is worth it
+  "worked-solution": "google/gemini-2.5-pro",
+};
+
+export function modelFor(functionName: AiFunctionName): string {
+  const envName = `AI_MODEL_${functionName.toUpperCase().replace(/-/g, "_")}`;
+  return Deno.env.get(envName) || AI_MODELS[functionName];
+}
+
+export function providerName(): AiProviderName {
+  const name = Deno.env.get("AI_PROVIDER") || DEFAULT_AI_PROVIDER;
+  if (name !== "lovable" && name !== "fake") {
+    throw new Error(`Unknown AI_PROVIDER "${name}"`);
+  }
+  return name;
+}
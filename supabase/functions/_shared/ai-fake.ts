@@ -0,0 +1,73 @@
+import { AiProviderError, type AiProvider, type ChatMessage, type ChatRequest } from "./ai.ts";
+import type { AiFunctionName } from "./ai-config.ts";
+
+/**
+ * One scripted reply. The first entry whose `match` appears in the request
+ * (system prompt and user text) is used; entries without `match` always apply.
+ * `once` entries are used up after one reply, so a script can play out a
+ * sequence such as a rate limit followed by a good answer.
+ */
+export interface FakeReply {
+  match?: string;
+  response?: string;
+  // Simulate a provider failure instead of replying (e.g. 429 or 402)
+  status?: number;
+  once?: boolean;
+}
+
+const FAKE_CHUNK_LENGTH = 16;
+
+// Replies per edge function, e.g. { "evaluate-answer": [{ "response": "{\"isCorrect\": true, ...}" }] }
+export type FakeScript = Partial<Record<AiFunctionName, FakeReply[]>>;
+
+/**
+ * Offline provider that answers from a script instead of calling a model.
+ * Requests that no entry matches fail loudly so a missing script line is obvious.
+ */
+export function createFakeProvider(replies: FakeReply[]): AiProvider {
+  // Copy so `once` entries can be used up without touching the caller's script
+  const remaining = [...replies];
+
+  const reply = ({ model, messages }: ChatRequest): Promise<string> => {
+    const text = messages.map(messageText).join("\n");
+    const index = remaining.findIndex((reply) => !reply.match || text.includes(reply.match));
+    if (index === -1) {
+      return Promise.reject(new Error(`Fake provider has no scripted reply for this ${model} request`));
+    }
+
+    const scripted = remaining[index];
+    if (scripted.once) remaining.splice(index, 1);
+
+    if (scripted.status) {
+      return Promise.reject(new AiProviderError(`Fake provider error ${scripted.status}`, scripted.status));
+    }
+    return Promise.resolve(scripted.response ?? "");
+  };
+
+  return {
+    name: "fake",
+    complete: reply,
+    // The scripted reply in small pieces, so streaming callers see partial text
+    async stream(request, onChunk) {
+      const response = await reply(request);
+      for (let start = 0; start < response.length; start += FAKE_CHUNK_LENGTH) {
+        onChunk(response.slice(start, start + FAKE_CHUNK_LENGTH));
+      }
+      return response;
+    },
+  };
+}
+
+/**
+ * Reads the script named by AI_FAKE_SCRIPT, or an empty script.
+ */
+export async function loadFakeScript(): Promise<FakeScript> {
+  const path = Deno.env.get("AI_FAKE_SCRIPT");
+  if (!path) return {};
+  return JSON.parse(await Deno.readTextFile(path)) as FakeScript;
+}
+
+function messageText(message: ChatMessage): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content.map((part) => (part.type === "text" ? part.text : "")).join("\n");
+}
@@ -0,0 +1,288 @@
+import { z } from "https://esm.sh/zod@3.25.76";
+import { modelFor, providerName, type AiFunctionName } from "./ai-config.ts";
+import { createFakeProvider, loadFakeScript } from "./ai-fake.ts";
+import { escapeLatexInJson } from "./latex.ts";
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+}
+
+/**
+ * Anything that can answer a chat completion. Implementations throw
+ * AiProviderError for failures the caller should pass on to the client.
+ */
+export interface AiProvider {
+  name: string;
+  complete(request: ChatRequest): Promise<string>;
+  // Same reply, passed to onChunk piece by piece as it is generated
+  stream(request: ChatRequest, onChunk: (text: string) => void): Promise<string>;
+}
+
+/**
+ * A provider failure with the HTTP status the edge function should respond with.
+ */
+export class AiProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AiProviderError";
+    this.status = status;
+  }
+}
+
+/**
+ * A model reply that still did not match the expected format after the repair
+ * requests. It is never a result: callers record it as a failure.
+ */
+export class InvalidModelReplyError extends Error {
+  reply: string;
+  // The whole exchange, repair requests included
+  messages: ChatMessage[];
+
+  constructor(message: string, reply: string, messages: ChatMessage[]) {
+    super(message);
+    this.name = "InvalidModelReplyError";
+    this.reply = reply;
+    this.messages = messages;
+  }
+}
+
+const LOVABLE_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+
+/**
+ * OpenAI-compatible chat completions through the Lovable AI gateway.
+ */
+export function createLovableProvider(apiKey: string): AiProvider {
+  const request = async (body: Record<string, unknown>) => {
+    const response = await fetch(LOVABLE_GATEWAY_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("AI gateway error:", response.status, errorText);
+
+      if (response.status === 429) {
+        throw new AiProviderError("Rate limit exceeded. Please try again later.", 429);
+      }
+      if (response.status === 402) {
+        throw new AiProviderError("AI credits exhausted. Please add credits to continue.", 402);
+      }
+      throw new AiProviderError(`AI gateway error: ${response.status}`, 502);
+    }
+    return response;
+  };
+
+  return {
+    name: "lovable",
+    async complete({ model, messages }) {
+      const response = await request({ model, messages });
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content || "";
+    },
+
+    // Server-sent events: one "data: {json}" line per chunk, ending with "data: [DONE]"
+    async stream({ model, messages }, onChunk) {
+      const response = await request({ model, messages, stream: true });
+      const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      let reply = "";
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const data = line.trim();
+          if (!data.startsWith("data:")) continue;
+          const payload = data.slice(5).trim();
+          if (payload === "[DONE]") return reply;
+
+          const text = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (text) {
+            reply += text;
+            onChunk(text);
+          }
+        }
+      }
+      return reply;
+    },
+  };
+}
+
+/**
+ * The model and provider configured for one edge function.
+ */
+export interface AiClient {
+  provider: string;
+  model: string;
+  complete(messages: ChatMessage[]): Promise<string>;
+  stream(messages: ChatMessage[], onChunk: (text: string) => void): Promise<string>;
+}
+
+export async function createAiClient(functionName: AiFunctionName): Promise<AiClient> {
+  const provider = await createProvider(functionName);
+  const model = modelFor(functionName);
+  console.log(`${functionName}: using ${provider.name} provider with ${model}`);
+
+  return {
+    provider: provider.name,
+    model,
+    complete: (messages) => provider.complete({ model, messages }),
+    stream: (messages, onChunk) => provider.stream({ model, messages }, onChunk),
+  };
+}
+
+// Kept for the life of the function instance, so `once` replies stay used up across requests
+const fakeProviders = new Map<AiFunctionName, AiProvider>();
+
+async function createProvider(functionName: AiFunctionName): Promise<AiProvider> {
+  if (providerName() === "fake") {
+    if (!fakeProviders.has(functionName)) {
+      const script = await loadFakeScript();
+      fakeProviders.set(functionName, createFakeProvider(script[functionName] ?? []));
+    }
+    return fakeProviders.get(functionName)!;
+  }
+
+  const apiKey = Deno.env.get("LOVABLE_API_KEY");
+  if (!apiKey) {
+    throw new Error("LOVABLE_API_KEY is not configured");
+  }
+  return createLovableProvider(apiKey);
+}
+
+/**
+ * Parses a JSON reply, tolerating the markdown code fences models like to add
+ * and LaTeX with unescaped backslashes. Returns null when the reply is not valid JSON.
+ */
+export function parseJsonReply<T>(text: string): T | null {
+  let cleanedText = text.trim();
+  if (cleanedText.startsWith("```json")) {
+    cleanedText = cleanedText.slice(7);
+  } else if (cleanedText.startsWith("```")) {
+    cleanedText = cleanedText.slice(3);
+  }
+  if (cleanedText.endsWith("```")) {
+    cleanedText = cleanedText.slice(0, -3);
+  }
+
+  try {
+    return JSON.parse(escapeLatexInJson(cleanedText.trim())) as T;
+  } catch (parseError) {
+    console.error("Failed to parse AI reply as JSON:", parseError);
+    return null;
+  }
+}
+
+// Requests to fix a bad reply before giving up
+const REPAIR_ATTEMPTS = 2;
+
+/**
+ * A checked JSON reply with the exchange that produced it, for audit trails.
+ */
+export interface JsonCompletion<T> {
+  data: T;
+  // Every message sent, repair requests included
+  messages: ChatMessage[];
+  reply: string;
+}
+
+/**
+ * Asks for a JSON reply and checks it against `schema`. A reply that is not JSON
+ * or does not match is sent back to the model with what was wrong; once the
+ * repair attempts run out, throws InvalidModelReplyError.
+ *
+ * With `onReply`, the first reply is streamed and onReply gets the text so far
+ * after every chunk. Repairs are not streamed: callers send the checked result
+ * once this returns.
+ */
+export async function completeJson<T>(
+  ai: AiClient,
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  onReply?: (replySoFar: string) => void
+): Promise<T> {
+  return (await completeJsonWithTranscript(ai, messages, schema, onReply)).data;
+}
+
+/**
+ * completeJson, also returning the messages sent and the raw reply.
+ */
+export async function completeJsonWithTranscript<T>(
+  ai: AiClient,
+  messages: ChatMessage[],
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  onReply?: (replySoFar: string) => void
+): Promise<JsonCompletion<T>> {
+  const conversation = [...messages];
+  let reply = "";
+  let problem = "";
+
+  for (let attempt = 0; attempt <= REPAIR_ATTEMPTS; attempt++) {
+    if (attempt === 0 && onReply) {
+      let soFar = "";
+      reply = await ai.stream(conversation, (chunk) => {
+        soFar += chunk;
+        onReply(soFar);
+      });
+    } else {
+      reply = await ai.complete(conversation);
+    }
+    const data = parseJsonReply<unknown>(reply);
+    if (data === null) {
+      problem = "it is not valid JSON";
+    } else {
+      const result = schema.safeParse(data);
+      if (result.success) return { data: result.data, messages: conversation, reply };
+      problem = describeIssues(result.error);
+    }
+
+    console.error(`Invalid model reply (attempt ${attempt + 1}/${REPAIR_ATTEMPTS + 1}): ${problem}`);
+    if (attempt < REPAIR_ATTEMPTS) {
+      conversation.push(
+        { role: "assistant", content: reply },
+        { role: "user", content: `Your reply could not be used because ${problem}. Reply again with ONLY the corrected JSON, in exactly the format asked for.` }
+      );
+    }
+  }
+
+  throw new InvalidModelReplyError(`The model's reply did not match the expected format (${problem})`, reply, conversation);
+}
+
+// "feedback: Required; awarded: Array must contain exactly 2 element(s)"
+function describeIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join(".") || "the reply"}: ${issue.message}`)
+    .join("; ");
+}
+
+/**
+ * Status code for an error caught in an edge function: provider errors keep
+ * theirs (429 rate limit, 402 out of credits), a reply that could not be
+ * repaired is a 502, anything else is a 500.
+ */
+export function errorStatus(error: unknown): number {
+  if (error instanceof AiProviderError) return error.status;
+  return error instanceof InvalidModelReplyError ? 502 : 500;
+}
@@ -0,0 +1,50 @@
+/**
+ * The kind of answer a question expects, classified during OCR. It picks the
+ * input the student sees and the grader evaluate-answer uses. Null on a
+ * question means free text.
+ */
+export type AnswerType =
+  | "multiple_choice"
+  | "numeric"
+  | "expression"
+  | "equation"
+  | "inequality"
+  | "coordinates"
+  | "vector"
+  | "set"
+  | "true_false";
+
+export const ANSWER_TYPES: AnswerType[] = [
+  "multiple_choice",
+  "numeric",
+  "expression",
+  "equation",
+  "inequality",
+  "coordinates",
+  "vector",
+  "set",
+  "true_false",
+];
+
+// One choice of a multiple choice question, stored on questions.answer_options
+export interface AnswerOption {
+  label: string;
+  text: string;
+}
+
+export function parseAnswerType(value: unknown): AnswerType | null {
+  return ANSWER_TYPES.includes(value as AnswerType) ? (value as AnswerType) : null;
+}
+
+/**
+ * Keeps options with both a label and text. Null when fewer than two are left.
+ */
+export function parseAnswerOptions(value: unknown): AnswerOption[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const options = value
+    .filter((option) => option && option.label && option.text)
+    .map((option) => ({ label: String(option.label).trim(), text: String(option.text).trim() }));
+
+  return options.length >= 2 ? options : null;
+}
@@ -0,0 +1,19 @@
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * The signed-in user who made the request, from the JWT the client sent. Functions
+ * run with the service role, so anything that depends on who is asking (their
+ * hints, attempts or conversations) has to be checked against this user, never
+ * against ids in the request body.
+ */
+export async function requestUser(supabase: SupabaseClient, req: Request): Promise<User | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error) {
+    console.error("Error reading the request's user:", error.message);
+    return null;
+  }
+  return data.user;
+}
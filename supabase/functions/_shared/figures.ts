@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface FigureContext {
+  // Cropped figure images to attach to the model request, in page order
+  imageUrls: string[];
+  // The question refers to a figure but there is nothing we can show the model
+  missingFigure: boolean;
+}
+
+// Marker the OCR prompt puts at the start of figure-based questions
+const FIGURE_MARKER = "[see figure";
+
+/**
+ * Looks up the figures linked to a question (and its stems) by process-document.
+ * Documents processed before figures were extracted only carry the OCR marker,
+ * so for those we fall back to the whole image (or give up for PDFs).
+ */
+export async function loadFigureContext(
+  supabase: SupabaseClient,
+  questionIds: string[],
+  questionText: string,
+  documentUrl?: string | null
+): Promise<FigureContext> {
+  const { data, error } = await supabase
+    .from("question_figures")
+    .select("figures(image_url, page_number)")
+    .in("question_id", questionIds);
+
+  if (error) {
+    console.error("Error loading question figures:", error);
+  }
+
+  const imageUrls = (data ?? [])
+    .map((row) => row.figures as { image_url: string; page_number: number } | null)
+    .filter((figure): figure is { image_url: string; page_number: number } => !!figure)
+    .sort((a, b) => a.page_number - b.page_number)
+    .map((figure) => figure.image_url)
+    .filter((url, index, urls) => urls.indexOf(url) === index);
+
+  if (imageUrls.length > 0) {
+    return { imageUrls, missingFigure: false };
+  }
+
+  if (!questionText.toLowerCase().includes(FIGURE_MARKER)) {
+    return { imageUrls: [], missingFigure: false };
+  }
+
+  const isPdf = documentUrl?.toLowerCase().endsWith(".pdf");
+  if (documentUrl && !isPdf) {
+    return { imageUrls: [documentUrl], missingFigure: false };
+  }
+
+  return { imageUrls: [], missingFigure: true };
+}
@@ -0,0 +1,61 @@
+/**
+ * Hints come in a fixed order, each giving away more than the last. A question
+ * allows one hint per level, and each hint taken before an answer costs a share
+ * of the marks it earns.
+ */
+export type HintLevel = "nudge" | "concept" | "first_step" | "next_step";
+
+export interface HintLevelSpec {
+  level: HintLevel;
+  label: string;
+  // Share of the question's marks the hint costs
+  penalty: number;
+  // What get-hint asks the model for at this level
+  instruction: string;
+}
+
+export const HINT_LEVELS: HintLevelSpec[] = [
+  {
+    level: "nudge",
+    label: "Nudge",
+    penalty: 0.1,
+    instruction: "Give a gentle nudge: point out what to notice in the question or what it is really asking. Do not name a method or formula yet.",
+  },
+  {
+    level: "concept",
+    label: "Relevant concept",
+    penalty: 0.1,
+    instruction: "Name the concept, rule or formula the question needs and say briefly why it applies. Do not apply it to the numbers in the question.",
+  },
+  {
+    level: "first_step",
+    label: "First step",
+    penalty: 0.2,
+    instruction: "Describe the first step of the solution in words: what to set up or calculate first. Do not carry it out.",
+  },
+  {
+    level: "next_step",
+    label: "Worked next step",
+    penalty: 0.2,
+    instruction: "Work one step of the solution in full, the next one after the first step, showing the calculation. Stop there and never reach the final answer.",
+  },
+];
+
+export const MAX_HINTS = HINT_LEVELS.length;
+
+/**
+ * The level of the next hint after `hintsGiven` hints, or null when the
+ * question's hints are used up.
+ */
+export function nextHintLevel(hintsGiven: number): HintLevelSpec | null {
+  return HINT_LEVELS[hintsGiven] ?? null;
+}
+
+/**
+ * Marks taken off an answer for the hints used before it: each hint's share of
+ * the question's marks, never more than the answer earned. Rounded to two places.
+ */
+export function hintPenalty(hintsUsed: number, score: number, maxScore: number): number {
+  const share = HINT_LEVELS.slice(0, hintsUsed).reduce((sum, spec) => sum + spec.penalty, 0);
+  return Math.min(score, Math.round(share * maxScore * 100) / 100);
+}
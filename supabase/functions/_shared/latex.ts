@@ -0,0 +1,27 @@
+/**
+ * Prompt rule for replies a student reads (hints, feedback): the
+ * app typesets anything between $ signs.
+ */
+export const LATEX_RULE = "Write any mathematics in LaTeX between $ signs, e.g. $x^{-3}$, $\\frac{\\sqrt{2}}{3}$, $2x \\leq 5$";
+
+// LaTeX commands that begin with a letter JSON treats as an escape (\f, \n, \r, \t, \b)
+const ESCAPE_LOOKALIKES = new Set([
+  "frac", "dfrac", "tfrac", "binom", "beta", "bar", "bmatrix", "bigg", "big",
+  "neq", "ne", "nu", "not", "nabla", "newline",
+  "right", "rho", "rightarrow",
+  "times", "theta", "tan", "tau", "text", "textbf", "textit", "to", "triangle", "top",
+]);
+
+/**
+ * Doubles the backslashes of LaTeX commands a model forgot to escape inside a
+ * JSON reply. "\sqrt" would make the reply unparseable and "\frac" would silently
+ * turn into a form feed and "rac". Real escapes such as "\n" and "\u00b2" are kept.
+ */
+export function escapeLatexInJson(json: string): string {
+  return json.replace(/\\\\|\\u[0-9a-fA-F]{4}|\\([a-zA-Z]+)/g, (match, word: string | undefined) => {
+    if (!word) return match;
+    if ("bfnrt".includes(word[0])) return ESCAPE_LOOKALIKES.has(word) ? `\\${match}` : match;
+    // Any other letter is not a JSON escape at all
+    return `\\${match}`;
+  });
+}
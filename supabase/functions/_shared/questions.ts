@@ -0,0 +1,130 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { AnswerType } from "./answer-types.ts";
+
+export interface QuestionStem {
+  id: string;
+  number: string;
+  text: string;
+}
+
+// Guards against a parent_id cycle introduced by bad data
+const MAX_STEM_DEPTH = 5;
+
+/**
+ * Walks up parent_id from a question part and returns its stems, outermost first.
+ */
+export async function loadStems(supabase: SupabaseClient, questionId: string): Promise<QuestionStem[]> {
+  const stems: QuestionStem[] = [];
+
+  const { data: question, error } = await supabase
+    .from("questions")
+    .select("parent_id")
+    .eq("id", questionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading question:", error);
+    return stems;
+  }
+
+  let parentId: string | null = question?.parent_id ?? null;
+  while (parentId && stems.length < MAX_STEM_DEPTH) {
+    const { data: parent, error: parentError } = await supabase
+      .from("questions")
+      .select("id, parent_id, question_number, question_text")
+      .eq("id", parentId)
+      .maybeSingle();
+
+    if (parentError || !parent) {
+      console.error("Error loading question stem:", parentError);
+      break;
+    }
+
+    stems.unshift({ id: parent.id, number: parent.question_number, text: parent.question_text });
+    parentId = parent.parent_id;
+  }
+
+  return stems;
+}
+
+/**
+ * Prefixes a part's text with the shared context from its stems.
+ */
+export function withStems(stems: QuestionStem[], questionText: string): string {
+  if (stems.length === 0) {
+    return questionText;
+  }
+
+  const context = stems
+    .map((stem) => `Context from question ${stem.number}:\n${stem.text}`)
+    .join("\n\n");
+  return `${context}\n\nPart to answer:\n${questionText}`;
+}
+
+export interface QuestionRecord {
+  id: string;
+  document_id: string;
+  parent_id: string | null;
+  question_number: string;
+  question_text: string;
+  marks: number | null;
+  reference_answer: string | null;
+  mark_scheme_notes: string | null;
+  rubric: unknown;
+  precision_type: "sig_figs" | "decimal_places" | null;
+  precision_digits: number | null;
+  answer_unit: string | null;
+  answer_type: AnswerType | null;
+  answer_options: unknown;
+  approved: boolean;
+}
+
+export async function loadQuestion(supabase: SupabaseClient, questionId: string): Promise<QuestionRecord | null> {
+  const { data, error } = await supabase
+    .from("questions")
+    .select("id, document_id, parent_id, question_number, question_text, marks, reference_answer, mark_scheme_notes, rubric, precision_type, precision_digits, answer_unit, answer_type, answer_options, approved")
+    .eq("id", questionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading question:", error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Whether a user may work on the question: it is on a paper they uploaded, or it
+ * is approved on a published paper, which is what the question list shows students.
+ */
+export async function canSeeQuestion(
+  supabase: SupabaseClient,
+  userId: string,
+  question: QuestionRecord
+): Promise<boolean> {
+  const { data: document, error } = await supabase
+    .from("documents")
+    .select("user_id, status")
+    .eq("id", question.document_id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading question's document:", error);
+    throw error;
+  }
+  if (!document) return false;
+
+  return document.user_id === userId || (document.status === "completed" && question.approved);
+}
+
+/**
+ * Everything a cached result was worked out from, hashed. Editing the question
+ * text, a stem, the mark scheme or the prompt gives a new version, so results
+ * stored for the old one stop matching.
+ */
+export async function questionVersion(parts: Record<string, unknown>): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(parts));
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
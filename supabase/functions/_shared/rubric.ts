@@ -0,0 +1,75 @@
+/**
+ * One line of a question's mark scheme: M marks for a correct method, A and B
+ * marks for an accurate result. Stored on questions.rubric.
+ */
+export interface RubricLine {
+  type: "method" | "accuracy";
+  marks: number;
+  description: string;
+}
+
+// A rubric line with the marks an answer earned on it, stored on student_answers.rubric_marks
+export interface RubricMark extends RubricLine {
+  awarded: number;
+}
+
+/**
+ * Keeps only well-formed lines from a rubric the model extracted or the database
+ * returned. Null when nothing usable is left.
+ */
+export function parseRubric(value: unknown): RubricLine[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const lines = value
+    .filter((line) => line && (line.type === "method" || line.type === "accuracy"))
+    .map((line) => ({
+      type: line.type as RubricLine["type"],
+      marks: Number(line.marks),
+      description: String(line.description ?? ""),
+    }))
+    .filter((line) => Number.isInteger(line.marks) && line.marks > 0);
+
+  return lines.length > 0 ? lines : null;
+}
+
+/**
+ * The question's rubric, or a single accuracy line worth all of its marks when
+ * the mark scheme gave none (so the answer is all or nothing).
+ */
+export function rubricFor(rubric: RubricLine[] | null, marks: number | null): RubricLine[] {
+  return rubric ?? [{ type: "accuracy", marks: marks || 1, description: "Correct answer" }];
+}
+
+export function hasMethodMarks(rubric: RubricLine[]): boolean {
+  return rubric.some((line) => line.type === "method");
+}
+
+/**
+ * Marks per line from what the model awarded, clamped to each line's range.
+ * Lines the model skipped get nothing.
+ */
+export function awardMarks(rubric: RubricLine[], awarded: unknown[]): RubricMark[] {
+  return rubric.map((line, index) => {
+    const value = Math.round(Number(awarded[index]));
+    return { ...line, awarded: Number.isFinite(value) ? Math.min(Math.max(value, 0), line.marks) : 0 };
+  });
+}
+
+export function allOrNothing(rubric: RubricLine[], isCorrect: boolean): RubricMark[] {
+  return rubric.map((line) => ({ ...line, awarded: isCorrect ? line.marks : 0 }));
+}
+
+/**
+ * For a right value given to the wrong precision or in the wrong unit: the
+ * method was sound, the accurate result was not reached.
+ */
+export function methodMarksOnly(rubric: RubricLine[]): RubricMark[] {
+  return rubric.map((line) => ({ ...line, awarded: line.type === "method" ? line.marks : 0 }));
+}
+
+export function totalScore(marks: RubricMark[]): { score: number; maxScore: number } {
+  return {
+    score: marks.reduce((sum, line) => sum + line.awarded, 0),
+    maxScore: marks.reduce((sum, line) => sum + line.marks, 0),
+  };
+}
@@ -0,0 +1,98 @@
+import { errorStatus } from "./ai.ts";
+import { escapeLatexInJson } from "./latex.ts";
+
+// Sends one server-sent event: "delta" for text so far, "done" or "error" to finish
+export type SendEvent = (event: string, data: unknown) => void;
+
+/**
+ * The text of a string field in a JSON reply that is still arriving, e.g. the
+ * "hint" of '{"hint": "Try factorising $x^2' -> "Try factorising $x^2". Null
+ * until the field has started. An escape cut off at the end of the reply is held
+ * back, since "\f" may yet become "\frac".
+ */
+export function streamedText(reply: string, field: string): string | null {
+  const start = reply.match(new RegExp(`"${field}"\\s*:\\s*"`));
+  if (!start || start.index === undefined) return null;
+
+  const rest = reply.slice(start.index + start[0].length);
+  let end = 0;
+  while (end < rest.length && rest[end] !== '"') {
+    if (rest[end] !== "\\") {
+      end++;
+      continue;
+    }
+    // A backslash followed only by letters or digits up to the end is unfinished
+    if (/^\\[a-zA-Z0-9]*$/.test(rest.slice(end))) break;
+    end += 2;
+  }
+
+  try {
+    return JSON.parse(`"${escapeLatexInJson(rest.slice(0, end))}"`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * An onReply callback for completeJson that sends each new piece of `field` as a
+ * "delta" event carrying the text added since the last one.
+ */
+export function fieldStreamer(field: string, send: SendEvent): (replySoFar: string) => void {
+  let sent = "";
+  return (replySoFar) => {
+    const text = streamedText(replySoFar, field);
+    if (text === null || text.length <= sent.length || !text.startsWith(sent)) return;
+    send("delta", { text: text.slice(sent.length) });
+    sent = text;
+  };
+}
+
+/**
+ * A server-sent event response. `run` streams deltas through `send` and returns
+ * the final payload, sent as a "done" event; anything it throws is sent as an
+ * "error" event with the status the JSON response would have had. `run` always
+ * finishes, even when the client goes away mid-stream: events are dropped from
+ * then on, so a grade is still stored when nobody is left to read it.
+ */
+export function sseResponse(
+  corsHeaders: Record<string, string>,
+  name: string,
+  run: (send: SendEvent) => Promise<unknown>
+): Response {
+  const encoder = new TextEncoder();
+  let closed = false;
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+        } catch (error) {
+          // The stream broke some other way; the rest of the events go nowhere too
+          console.log(`Stopped streaming ${name}:`, error instanceof Error ? error.message : error);
+          closed = true;
+        }
+      };
+
+      try {
+        send("done", await run(send));
+      } catch (error) {
+        console.error(`Error in ${name} function:`, error);
+        send("error", { error: error instanceof Error ? error.message : "Unknown error", status: errorStatus(error) });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    // The client disconnected, e.g. the student closed the tab
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+  });
+}
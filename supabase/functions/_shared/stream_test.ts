@@ -0,0 +1,39 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { fieldStreamer, sseResponse, streamedText } from "./stream.ts";
+
+Deno.test("streamedText reads a field that is still arriving", () => {
+  assertEquals(streamedText('{"hint": "Try factorising $x^2', "hint"), "Try factorising $x^2");
+  assertEquals(streamedText('{"hint": "Use \\f', "hint"), "Use ");
+  assertEquals(streamedText('{"isCorrect": true', "hint"), null);
+});
+
+Deno.test("the grade is still stored when the client disconnects mid-stream", async () => {
+  const storedGrades: unknown[] = [];
+  let finished!: () => void;
+  const runFinished = new Promise<void>((resolve) => (finished = resolve));
+
+  // Stands in for evaluate(): streams feedback, then stores the grade and returns it
+  const response = sseResponse({}, "evaluate-answer", async (send) => {
+    try {
+      const onReply = fieldStreamer("feedback", send);
+      onReply('{"feedback": "Check the');
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      onReply('{"feedback": "Check the sign", "isCorrect": false}');
+      const grade = { isCorrect: false, feedback: "Check the sign" };
+      storedGrades.push(grade);
+      return grade;
+    } finally {
+      finished();
+    }
+  });
+
+  const reader = response.body!.getReader();
+  const first = await reader.read();
+  assertEquals(new TextDecoder().decode(first.value).startsWith("event: delta"), true);
+  await reader.cancel();
+
+  await runFinished;
+  // Let the "done" event and the close run against the cancelled stream
+  await new Promise((resolve) => setTimeout(resolve, 0));
+  assertEquals(storedGrades.length, 1);
+});
@@ -0,0 +1,22 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Who submitted an answer and to which question, or null for an unknown answer.
+ */
+export async function loadAnswerOwner(
+  supabase: SupabaseClient,
+  answerId: string
+): Promise<{ userId: string | null; questionId: string } | null> {
+  const { data, error } = await supabase
+    .from("student_answers")
+    .select("user_id, question_id")
+    .eq("id", answerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading answer:", error);
+    throw error;
+  }
+
+  return data ? { userId: data.user_id, questionId: data.question_id } : null;
+}
@@ -0,0 +1,59 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ChatMessage } from "../_shared/ai.ts";
+
+/**
+ * One grading of an answer as stored in grading_runs. Checker gradings have no
+ * model, prompt or raw response, and neither do evaluations reused from the
+ * cache, which keep the model that first produced them.
+ */
+export interface GradingRun {
+  gradedBy: "checker" | "model";
+  model: string | null;
+  promptVersion: string | null;
+  prompt: ChatMessage[] | null;
+  rawResponse: string | null;
+  result: Record<string, unknown> | null;
+  error: string | null;
+  fromCache: boolean;
+}
+
+export async function recordGradingRun(supabase: SupabaseClient, answerId: string, run: GradingRun): Promise<void> {
+  const { error } = await supabase.from("grading_runs").insert({
+    answer_id: answerId,
+    graded_by: run.gradedBy,
+    model: run.model,
+    prompt_version: run.promptVersion,
+    prompt: run.prompt,
+    raw_response: run.rawResponse,
+    result: run.result,
+    error: run.error,
+    from_cache: run.fromCache,
+  });
+
+  if (error) {
+    console.error("Error recording grading run:", error);
+    throw error;
+  }
+}
+
+/**
+ * Starts the answer's grade history with the grade grading gave it.
+ */
+export async function recordInitialGrade(
+  supabase: SupabaseClient,
+  answerId: string,
+  { isCorrect, score, maxScore }: { isCorrect: boolean | null; score: number | null; maxScore: number | null }
+): Promise<void> {
+  const { error } = await supabase.from("grade_changes").insert({
+    answer_id: answerId,
+    source: "grading",
+    is_correct: isCorrect,
+    score,
+    max_score: maxScore,
+  });
+
+  if (error) {
+    console.error("Error recording grade history:", error);
+    throw error;
+  }
+}
@@ -0,0 +1,128 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { formatExpression, MathParseError, normalizeNotation, parseExpression } from "./math.ts";
+import type { Evaluation } from "./model-grader.ts";
+
+/**
+ * Where an evaluation is stored in evaluation_cache: the version of the question
+ * it was graded against and the answer in canonical form.
+ */
+export interface CacheKey {
+  questionVersion: string;
+  answerKey: string;
+}
+
+export interface CachedEvaluation {
+  id: string;
+  evaluation: Evaluation;
+  model: string | null;
+}
+
+// Relations and separators between the parts of an answer: "x = 4", "x < 3", "2, -3"
+const SEPARATORS = /(<=|>=|[=<>≤≥≠,;])/;
+
+/**
+ * The answer and its working in canonical form: whitespace removed and each
+ * expression printed the same way however it was typed, so "x = 4" and "x=4",
+ * or "2x+1" and "1 + 2*x", share an entry. With `literal`, numbers and units
+ * are kept as written ("4.0" and "4" differ when rounding is marked), and only
+ * whitespace is removed.
+ */
+export function answerKey(studentAnswer: string, steps: string[], literal: boolean): string {
+  return [studentAnswer, ...steps].map((text) => canonicalText(text, literal)).join("\n");
+}
+
+function canonicalText(text: string, literal: boolean): string {
+  const normalized = normalizeNotation(text);
+  if (literal) return normalized.replace(/\s+/g, "");
+
+  return normalized
+    .split(SEPARATORS)
+    .map((part, index) => (index % 2 === 1 ? part : canonicalPart(part)))
+    .join("");
+}
+
+// Words and anything else that is not an expression only lose their spacing and case
+function canonicalPart(part: string): string {
+  try {
+    return formatExpression(parseExpression(part));
+  } catch (error) {
+    if (!(error instanceof MathParseError)) throw error;
+    return part.replace(/\s+/g, "").toLowerCase();
+  }
+}
+
+/**
+ * An earlier evaluation of the same answer to the same version of the question.
+ * A lookup that fails is treated as a miss, so grading carries on with the model.
+ */
+export async function findCachedEvaluation(
+  supabase: SupabaseClient,
+  questionId: string,
+  key: CacheKey
+): Promise<CachedEvaluation | null> {
+  const { data, error } = await supabase
+    .from("evaluation_cache")
+    .select("id, evaluation, model, hit_count")
+    .eq("question_id", questionId)
+    .eq("question_version", key.questionVersion)
+    .eq("answer_key", key.answerKey)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error reading evaluation cache:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  const { error: hitError } = await supabase
+    .from("evaluation_cache")
+    .update({ hit_count: data.hit_count + 1, last_used_at: new Date().toISOString() })
+    .eq("id", data.id);
+
+  if (hitError) {
+    console.error("Error counting cache hit:", hitError);
+  }
+
+  return { id: data.id, evaluation: data.evaluation as Evaluation, model: data.model };
+}
+
+/**
+ * Stores a model evaluation for later answers that share its key, and drops the
+ * entries left from earlier versions of the question. Failing to cache never
+ * fails grading.
+ */
+export async function cacheEvaluation(
+  supabase: SupabaseClient,
+  questionId: string,
+  key: CacheKey,
+  evaluation: Evaluation,
+  model: string,
+  answerId: string
+): Promise<void> {
+  const { error: staleError } = await supabase
+    .from("evaluation_cache")
+    .delete()
+    .eq("question_id", questionId)
+    .neq("question_version", key.questionVersion);
+
+  if (staleError) {
+    console.error("Error clearing stale evaluations:", staleError);
+  }
+
+  // Two students submitting the same answer at once: the first entry stays
+  const { error } = await supabase.from("evaluation_cache").upsert(
+    {
+      question_id: questionId,
+      question_version: key.questionVersion,
+      answer_key: key.answerKey,
+      evaluation,
+      model,
+      source_answer_id: answerId,
+    },
+    { onConflict: "question_id,question_version,answer_key", ignoreDuplicates: true }
+  );
+
+  if (error) {
+    console.error("Error caching evaluation:", error);
+  }
+}
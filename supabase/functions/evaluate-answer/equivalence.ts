@@ -0,0 +1,267 @@
+import { evaluate, normalizeNotation, parseExpression, variablesOf, MathParseError, type MathNode } from "./math.ts";
+
+export type EquivalenceResult = "equivalent" | "not_equivalent" | "unknown";
+
+type Answer =
+  | { kind: "expression"; node: MathNode }
+  | { kind: "equation"; left: MathNode; right: MathNode }
+  | { kind: "list"; items: Answer[]; ordered: boolean };
+
+// Fixed sample points keep grading deterministic. Non-integers avoid
+// accidental agreement (x^2 and 2x agree at 2); negatives catch sqrt(x^2) vs x.
+const SAMPLE_POINTS = [0.731, 1.618, 2.459, -0.573, 3.141, -1.414, 0.287, 4.123, -2.718, 1.105];
+const MIN_COMPARABLE_POINTS = 4;
+const RELATIVE_TOLERANCE = 1e-9;
+
+// "12,500" or "x = 1,000.5": one number with thousands separators, not a list
+const THOUSANDS_SEPARATED = /^((?:[a-zA-Z]\s*=\s*)?-?)(\d{1,3}(?:,\d{3})+(?:\.\d+)?)$/;
+
+/**
+ * Decides whether a student's answer is mathematically the same as the reference,
+ * e.g. "2(x+1)" and "2x+2", "x = 3" and "3", "0.5" and "1/2", "x = 2 or x = -3" and "-3, 2".
+ * Returns "unknown" when either side cannot be parsed or compared, so the caller
+ * can fall back to the model.
+ */
+export function checkEquivalence(studentAnswer: string, referenceAnswer: string): EquivalenceResult {
+  let student: Answer;
+  let reference: Answer;
+  try {
+    student = parseAnswer(studentAnswer);
+    reference = parseAnswer(referenceAnswer);
+  } catch (error) {
+    if (error instanceof MathParseError) {
+      console.log(`Equivalence check skipped: ${error.message}`);
+      return "unknown";
+    }
+    throw error;
+  }
+
+  const result = compareAnswers(student, reference);
+  // A rounded decimal ("0.33" for 1/3) is a precision question, not a wrong answer,
+  // and neither is an exact answer to a mark scheme that gives the rounded one
+  if (
+    result === "not_equivalent" &&
+    student.kind !== "list" &&
+    reference.kind !== "list" &&
+    (isRoundingOf(studentAnswer, reference) || isRoundingOf(referenceAnswer, student))
+  ) {
+    return "unknown";
+  }
+  return result;
+}
+
+function parseAnswer(input: string): Answer {
+  const text = normalizeNotation(input).replace(
+    THOUSANDS_SEPARATED,
+    (_, prefix: string, number: string) => prefix + number.replace(/,/g, "")
+  );
+  if (/[<>≤≥≠]/.test(text)) throw new MathParseError("Inequalities are not supported");
+
+  // "x = 2 or x = -3", "2, -3" and "2 and -3" are unordered lists of solutions
+  const parts = splitTopLevel(text, /^(,|;|\s+or\s+|\s+and\s+)/i);
+  if (parts.length > 1) {
+    return { kind: "list", items: parts.map(parseAnswer), ordered: false };
+  }
+
+  // "(3, -2)" is a coordinate pair or vector: order matters
+  const tuple = /^\((.*)\)$/.exec(text);
+  if (tuple && isBalanced(tuple[1])) {
+    const items = splitTopLevel(tuple[1], /^,/);
+    if (items.length > 1) {
+      return { kind: "list", items: items.map(parseAnswer), ordered: true };
+    }
+  }
+
+  const sides = text.split("=");
+  if (sides.length === 2) {
+    return { kind: "equation", left: parseExpression(sides[0]), right: parseExpression(sides[1]) };
+  }
+  if (sides.length > 2) throw new MathParseError("More than one \"=\"");
+
+  return { kind: "expression", node: parseExpression(text) };
+}
+
+function compareAnswers(student: Answer, reference: Answer): EquivalenceResult {
+  if (student.kind === "list" || reference.kind === "list") {
+    if (student.kind !== "list" || reference.kind !== "list") return "not_equivalent";
+    // "2, 3" for the point (3, 2) may be the values in the wrong order, and "y = 3, x = 2"
+    // may be the right ones labelled: only a match in order settles it here
+    if (reference.ordered && !student.ordered) {
+      return compareLists(student.items, reference.items, true) === "equivalent" ? "equivalent" : "unknown";
+    }
+    return compareLists(student.items, reference.items, student.ordered && reference.ordered);
+  }
+
+  // "x = 3" answers a question whose reference is just "3" (and the other way round)
+  const studentValue = solvedValue(student);
+  const referenceValue = solvedValue(reference);
+
+  if (student.kind === "equation" && reference.kind === "equation") {
+    if (referenceValue) {
+      // A solved reference needs a solved answer: "2x = 6" restates the question
+      // rather than answering "x = 3", so only the model can judge it
+      if (!studentValue || studentValue.variable !== referenceValue.variable) return "unknown";
+      return compareExpressions(studentValue.value, referenceValue.value);
+    }
+    return compareEquations(student, reference);
+  }
+
+  const studentNode = student.kind === "expression" ? student.node : studentValue?.value;
+  const referenceNode = reference.kind === "expression" ? reference.node : referenceValue?.value;
+  if (!studentNode || !referenceNode) return "unknown";
+  return compareExpressions(studentNode, referenceNode);
+}
+
+function compareLists(student: Answer[], reference: Answer[], ordered: boolean): EquivalenceResult {
+  if (student.length !== reference.length) return "not_equivalent";
+
+  if (ordered) {
+    const results = student.map((item, index) => compareAnswers(item, reference[index]));
+    if (results.includes("not_equivalent")) return "not_equivalent";
+    return results.includes("unknown") ? "unknown" : "equivalent";
+  }
+
+  // Every student item has to match a different reference item
+  const unmatched = [...reference];
+  for (const item of student) {
+    const index = unmatched.findIndex((candidate) => compareAnswers(item, candidate) === "equivalent");
+    if (index === -1) {
+      return student.some((s) => reference.some((r) => compareAnswers(s, r) === "unknown"))
+        ? "unknown"
+        : "not_equivalent";
+    }
+    unmatched.splice(index, 1);
+  }
+  return "equivalent";
+}
+
+/**
+ * "x = 3" -> { variable: "x", value: 3 }. Only for a lone variable on one side.
+ */
+function solvedValue(answer: Answer): { variable: string; value: MathNode } | null {
+  if (answer.kind !== "equation") return null;
+  if (answer.left.type === "var" && !variablesOf(answer.right).has(answer.left.name)) {
+    return { variable: answer.left.name, value: answer.right };
+  }
+  if (answer.right.type === "var" && !variablesOf(answer.left).has(answer.right.name)) {
+    return { variable: answer.right.name, value: answer.left };
+  }
+  return null;
+}
+
+function compareExpressions(student: MathNode, reference: MathNode): EquivalenceResult {
+  const pairs = samplePairs(student, reference);
+  if (!pairs) return "unknown";
+  return pairs.every(([a, b]) => isClose(a, b)) ? "equivalent" : "not_equivalent";
+}
+
+/**
+ * Two equations are the same when left - right of one is a non-zero multiple of
+ * the other's ("y = 2x + 1" and "2x - y + 1 = 0").
+ */
+function compareEquations(
+  student: { left: MathNode; right: MathNode },
+  reference: { left: MathNode; right: MathNode }
+): EquivalenceResult {
+  const difference = (equation: { left: MathNode; right: MathNode }): MathNode => ({
+    type: "bin",
+    op: "-",
+    left: equation.left,
+    right: equation.right,
+  });
+
+  const pairs = samplePairs(difference(student), difference(reference))?.filter(
+    ([a, b]) => !isClose(a, 0) && !isClose(b, 0)
+  );
+  if (!pairs || pairs.length === 0) return "unknown";
+
+  const ratio = pairs[0][0] / pairs[0][1];
+  return pairs.every(([a, b]) => isClose(a / b, ratio)) ? "equivalent" : "not_equivalent";
+}
+
+/**
+ * Evaluates both expressions at the same points, skipping points where either
+ * is undefined (division by zero, sqrt of a negative). Null when the two use
+ * different variables or too few points could be compared to trust the result.
+ */
+function samplePairs(a: MathNode, b: MathNode): [number, number][] | null {
+  const variablesA = variablesOf(a);
+  const variablesB = variablesOf(b);
+  // Different letters usually mean units ("12 cm") or a different variable name,
+  // which the model judges better than sampling would
+  if (variablesA.size !== variablesB.size || [...variablesA].some((v) => !variablesB.has(v))) return null;
+
+  const variables = [...variablesA].sort();
+  const pointCount = variables.length === 0 ? 1 : SAMPLE_POINTS.length;
+  const pairs: [number, number][] = [];
+
+  for (let i = 0; i < pointCount; i++) {
+    // Each variable gets a different value at the same point
+    const scope = Object.fromEntries(
+      variables.map((name, v) => [name, SAMPLE_POINTS[(i + v * 3) % SAMPLE_POINTS.length]])
+    );
+    const valueA = evaluate(a, scope);
+    const valueB = evaluate(b, scope);
+    if (Number.isFinite(valueA) && Number.isFinite(valueB)) {
+      pairs.push([valueA, valueB]);
+    }
+  }
+
+  // Constants only need the one point
+  const required = variables.length === 0 ? 1 : MIN_COMPARABLE_POINTS;
+  return pairs.length >= required ? pairs : null;
+}
+
+export function isClose(a: number, b: number): boolean {
+  return Math.abs(a - b) <= RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Whether `decimalAnswer` is a decimal that `exact` rounds to, e.g. "0.333" and 1/3.
+ */
+function isRoundingOf(decimalAnswer: string, exact: Answer): boolean {
+  const decimal = /^-?\d*\.(\d+)$/.exec(normalizeNotation(decimalAnswer).replace(/^[a-zA-Z]\s*=\s*/, ""));
+  if (!decimal) return false;
+
+  const exactNode = exact.kind === "expression" ? exact.node : solvedValue(exact)?.value;
+  if (!exactNode || variablesOf(exactNode).size > 0) return false;
+
+  const value = parseFloat(normalizeNotation(decimalAnswer).replace(/^[a-zA-Z]\s*=\s*/, ""));
+  const places = decimal[1].length;
+  return Math.abs(value - evaluate(exactNode, {})) <= 0.5 * Math.pow(10, -places) + 1e-12;
+}
+
+function splitTopLevel(text: string, separator: RegExp): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if ("([{".includes(char)) depth++;
+    if (")]}".includes(char)) depth--;
+
+    const match = depth === 0 ? separator.exec(text.slice(i)) : null;
+    if (match && match[0].length > 0) {
+      parts.push(text.slice(start, i).trim());
+      i += match[0].length;
+      start = i;
+      continue;
+    }
+    i++;
+  }
+
+  parts.push(text.slice(start).trim());
+  return parts.filter((part) => part.length > 0);
+}
+
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  for (const char of text) {
+    if ("([{".includes(char)) depth++;
+    if (")]}".includes(char)) depth--;
+    if (depth < 0) return false;
+  }
+  return depth === 0;
+}
@@ -0,0 +1,63 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { checkEquivalence } from "./equivalence.ts";
+import { checkByType } from "./typed-grader.ts";
+
+Deno.test("equivalent forms of the same answer match", () => {
+  assertEquals(checkEquivalence("2x+2", "2(x+1)"), "equivalent");
+  assertEquals(checkEquivalence("x = 3", "3"), "equivalent");
+  assertEquals(checkEquivalence("3 = x", "x = 3"), "equivalent");
+  assertEquals(checkEquivalence("x = -3 or x = 2", "2, -3"), "equivalent");
+  assertEquals(checkEquivalence("2x - y + 1 = 0", "4x + 2 = 2y"), "equivalent");
+});
+
+Deno.test("an unsolved equation is left to the model when the reference is solved", () => {
+  assertEquals(checkEquivalence("2x = 6", "x = 3"), "unknown");
+  assertEquals(checkEquivalence("x+1=4", "x = 3"), "unknown");
+  assertEquals(checkEquivalence("y = 3", "x = 3"), "unknown");
+  assertEquals(checkEquivalence("2x - y + 1 = 0", "y = 2x + 1"), "unknown");
+  assertEquals(checkEquivalence("x = 4", "x = 3"), "not_equivalent");
+});
+
+Deno.test("thousands separators are part of a number, not a list", () => {
+  assertEquals(checkEquivalence("12,500", "12500"), "equivalent");
+  assertEquals(checkEquivalence("x = 1,000.5", "1000.5"), "equivalent");
+  assertEquals(checkEquivalence("12,500", "12000"), "not_equivalent");
+  assertEquals(checkByType("numeric", "1,000", "1000", null), "equivalent");
+  // Commas followed by spaces, or not in groups of three, still separate solutions
+  assertEquals(checkEquivalence("2, -3", "-3, 2"), "equivalent");
+  assertEquals(checkEquivalence("1,50", "1, 50"), "equivalent");
+});
+
+Deno.test("mark scheme answers in LaTeX are read like plain ones", () => {
+  assertEquals(checkEquivalence("2x^2+5x-3", "$2x^{2} + 5x - 3$"), "equivalent");
+  assertEquals(checkEquivalence("sqrt(2)/3", "$\\frac{\\sqrt{2}}{3}$"), "equivalent");
+  assertEquals(checkEquivalence("x^(-3)", "$\\frac{1}{x^{3}}$"), "equivalent");
+  assertEquals(checkEquivalence("x = 2", "$x = \\frac{6}{3}$"), "equivalent");
+  assertEquals(checkEquivalence("x = 4", "$x = 3$"), "not_equivalent");
+  assertEquals(checkByType("inequality", "x <= 5", "$x \\leq 5$", null), "equivalent");
+  assertEquals(checkByType("vector", "3i - 2j", "$\\begin{pmatrix} 3 \\\\ -2 \\end{pmatrix}$", null), "equivalent");
+  assertEquals(checkByType("set", "{3, 1, 2}", "$\\{1, 2, 3\\}$", null), "equivalent");
+});
+
+Deno.test("a list is only matched against a tuple in order", () => {
+  assertEquals(checkEquivalence("3, 2", "(3, 2)"), "equivalent");
+  assertEquals(checkEquivalence("x = 3, y = 2", "(3, 2)"), "equivalent");
+  assertEquals(checkEquivalence("2, 3", "(3, 2)"), "unknown");
+  assertEquals(checkEquivalence("y=3, x=2", "(2, 3)"), "unknown");
+  assertEquals(checkEquivalence("(2, 3)", "(3, 2)"), "not_equivalent");
+  assertEquals(checkByType("coordinates", "2, 3", "(3, 2)", null), "not_equivalent");
+});
+
+Deno.test("rounding is allowed for in either direction", () => {
+  assertEquals(checkEquivalence("0.333", "1/3"), "unknown");
+  assertEquals(checkEquivalence("1/3", "0.333"), "unknown");
+  assertEquals(checkEquivalence("x = 1/3", "x = 0.333"), "unknown");
+  assertEquals(checkEquivalence("1/2", "0.333"), "not_equivalent");
+});
+
+Deno.test("scientific notation is a number", () => {
+  assertEquals(checkEquivalence("1e3", "1000"), "equivalent");
+  assertEquals(checkEquivalence("1.5E-3", "0.0015"), "equivalent");
+  assertEquals(checkEquivalence("2e", "2 * e"), "equivalent");
+  assertEquals(checkEquivalence("1e3", "100"), "not_equivalent");
+});
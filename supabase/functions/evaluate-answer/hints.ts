@@ -0,0 +1,33 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * How many hints the student had been given for the question when they
+ * submitted this answer. Hints taken afterwards do not count against it.
+ */
+export async function hintsUsedBefore(supabase: SupabaseClient, answerId: string, questionId: string): Promise<number> {
+  const { data: answer, error } = await supabase
+    .from("student_answers")
+    .select("user_id, submitted_at")
+    .eq("id", answerId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading answer:", error);
+    throw error;
+  }
+  if (!answer?.user_id) return 0;
+
+  const { count, error: countError } = await supabase
+    .from("hints")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", answer.user_id)
+    .eq("question_id", questionId)
+    .lte("created_at", answer.submitted_at);
+
+  if (countError) {
+    console.error("Error counting hints:", countError);
+    throw countError;
+  }
+
+  return count ?? 0;
+}
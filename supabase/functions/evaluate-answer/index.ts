@@ -1,217 +1,377 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createAiClient, errorStatus, InvalidModelReplyError } from "../_shared/ai.ts";
+import { parseAnswerOptions, parseAnswerType, type AnswerOption } from "../_shared/answer-types.ts";
+import { requestUser } from "../_shared/auth.ts";
+import { loadFigureContext } from "../_shared/figures.ts";
+import { hintPenalty } from "../_shared/hints.ts";
+import { canSeeQuestion, loadQuestion, loadStems, questionVersion, withStems, type QuestionRecord } from "../_shared/questions.ts";
+import {
+  allOrNothing,
+  awardMarks,
+  hasMethodMarks,
+  methodMarksOnly,
+  parseRubric,
+  rubricFor,
+  totalScore,
+  type RubricMark,
+} from "../_shared/rubric.ts";
+import { fieldStreamer, sseResponse } from "../_shared/stream.ts";
+import { loadAnswerOwner } from "./answers.ts";
+import { recordGradingRun, recordInitialGrade, type GradingRun } from "./audit.ts";
+import { answerKey, cacheEvaluation, findCachedEvaluation, type CacheKey } from "./cache.ts";
+import { hintsUsedBefore } from "./hints.ts";
+import { GRADING_PROMPT_VERSION, gradeWithModel, type Evaluation } from "./model-grader.ts";
+import { loadWorkingPhotos } from "./photos.ts";
+import { checkQuantity, describeRequirements, type AnswerRequirements } from "./quantity.ts";
+import { parseSteps, saveStepVerdicts, validStepNumber } from "./steps.ts";
+import { checkByType } from "./typed-grader.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
+// Which path decided the grade, stored on the answer as graded_by
+type GradedBy = "checker" | "model";
+
+// Feedback for answers the equivalence checker settled; never hints at the reference answer
+function checkerEvaluation(isCorrect: boolean): Evaluation {
+  return isCorrect
+    ? { isCorrect: true, feedback: "Correct! Your answer matches the expected answer." }
+    : { isCorrect: false, feedback: "Not quite. Your answer doesn't match the expected answer, so check your working and try again." };
+}
+
+// "B" -> "B: x = 3"
+function describeChoice(answer: string, options: AnswerOption[] | null): string {
+  const option = options?.find((o) => o.label.toLowerCase() === answer.trim().toLowerCase());
+  return option ? `${option.label}: ${option.text}` : answer;
+}
+
+// The answer keeps is_correct null and the reason is stored, so a bad reply never counts as wrong
+async function recordGradingFailure(
+  supabase: SupabaseClient,
+  answerId: string,
+  model: string,
+  failure: InvalidModelReplyError
+) {
+  await recordGradingRun(supabase, answerId, {
+    gradedBy: "model",
+    model,
+    promptVersion: GRADING_PROMPT_VERSION,
+    prompt: failure.messages,
+    rawResponse: failure.reply,
+    result: null,
+    error: failure.message,
+    fromCache: false,
+  });
+
+  const { error } = await supabase
+    .from("student_answers")
+    .update({ grading_status: "failed", grading_error: failure.message })
+    .eq("id", answerId);
+
+  if (error) {
+    console.error("Error recording grading failure:", error);
   }
+}
 
-  try {
-    const { questionId, questionText, studentAnswer, answerId, documentUrl } = await req.json();
-    console.log(`Evaluating answer for question: ${questionId}`);
+interface EvaluationRequest {
+  questionId: string;
+  studentAnswer: string;
+  answerId: string;
+  documentUrl?: string | null;
+  steps?: unknown;
+}
+
+/**
+ * Grades the answer to `question`, stores the grade and returns it. With `onReply`
+ * a model's reply is streamed to it as it arrives; the grade is only stored once
+ * the whole reply has been checked.
+ */
+async function evaluate(
+  supabase: SupabaseClient,
+  question: QuestionRecord,
+  { questionId, studentAnswer, answerId, documentUrl, steps: rawSteps }: EvaluationRequest,
+  onReply?: (replySoFar: string) => void
+) {
+  // Working mode sends the numbered steps (already stored in answer_steps) with the final answer
+  const steps = parseSteps(rawSteps);
+  console.log(`Evaluating answer for question: ${questionId}${steps.length > 0 ? ` with ${steps.length} steps of working` : ""}`);
+
+  // Photos of handwritten working the student attached to this attempt
+  const workingPhotoUrls = await loadWorkingPhotos(supabase, answerId);
+  if (workingPhotoUrls.length > 0) {
+    console.log(`Answer has ${workingPhotoUrls.length} photo(s) of handwritten working`);
+  }
+
+  // The reference answer comes from an attached mark scheme, if there is one
+  const referenceAnswer = question.reference_answer;
+  const markSchemeNotes = question.mark_scheme_notes;
+  const markSchemeRubric = parseRubric(question.rubric);
+  const rubric = rubricFor(markSchemeRubric, question.marks);
+  const requirements: AnswerRequirements = {
+    precision: question.precision_type && question.precision_digits !== null
+      ? { type: question.precision_type, digits: question.precision_digits }
+      : null,
+    unit: question.answer_unit,
+  };
+  const answerType = parseAnswerType(question.answer_type);
+  const answerOptions = parseAnswerOptions(question.answer_options);
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+  // Settle what we can without the model: a reference answer the student's answer
+  // provably does or does not equal. Mark scheme notes (accepted alternatives,
+  // tolerances) can make a different answer acceptable, a wrong answer can still
+  // earn method marks, and wrong working needs its first wrong step found, so in
+  // those cases only a match counts. Photos of working always go to the model,
+  // which has to read them.
+  let evaluation: Evaluation | null = null;
+  let gradedBy: GradedBy = "model";
+  // What the model was sent and replied, kept in grading_runs
+  let modelRun: Pick<GradingRun, "model" | "promptVersion" | "prompt" | "rawResponse" | "fromCache"> | null = null;
+  // The right value given to the wrong precision or in the wrong unit
+  let presentationIssue = false;
+  if (referenceAnswer && workingPhotoUrls.length === 0) {
+    // Rounding and units first, since the plain checker compares exact values
+    const quantity = checkQuantity(studentAnswer, referenceAnswer, requirements);
+    const check = quantity.result !== "unknown"
+      ? quantity.result
+      : checkByType(answerType, studentAnswer, referenceAnswer, answerOptions);
+    const note = quantity.issue ?? quantity.slip;
+    console.log(`Equivalence check (${answerType ?? "free text"}): ${check}${note ? ` (${note})` : ""}`);
+    if (quantity.issue && !markSchemeNotes) {
+      evaluation = { isCorrect: false, feedback: quantity.issue };
+      presentationIssue = true;
+      gradedBy = "checker";
+    } else if (check === "equivalent" || (check === "not_equivalent" && !markSchemeNotes && !hasMethodMarks(rubric) && steps.length === 0)) {
+      // A truncated value is still wrong, but the feedback can say why; with method
+      // marks to award it goes to the model like any other wrong value
+      evaluation = check === "not_equivalent" && quantity.slip
+        ? { isCorrect: false, feedback: quantity.slip }
+        : checkerEvaluation(check === "equivalent");
+      gradedBy = "checker";
     }
+  }
 
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+  if (!evaluation) {
+    // Parts of a multi-part question are graded with their shared stem. The text is
+    // the paper's, not the client's, as it keys the cache every student shares
+    const stems = await loadStems(supabase, questionId);
+    const fullQuestionText = withStems(stems, question.question_text);
 
-    // Check if question references figures/charts/tables
-    const hasFigure = questionText.toLowerCase().includes("[see figure") || 
-                      questionText.toLowerCase().includes("figure") ||
-                      questionText.toLowerCase().includes("chart") ||
-                      questionText.toLowerCase().includes("graph") ||
-                      questionText.toLowerCase().includes("diagram") ||
-                      questionText.toLowerCase().includes("table");
-
-    // Check if document is a PDF (Gemini vision API doesn't support PDFs directly)
-    const isPdf = documentUrl?.toLowerCase().endsWith('.pdf');
-    
-    // For PDF documents with figure-based questions, we cannot grade accurately
-    const cannotGradeAccurately = hasFigure && isPdf;
-
-    // Build messages for AI
-    const messages: any[] = [
-      {
-        role: "system",
-        content: cannotGradeAccurately 
-          ? `You are an expert math teacher providing feedback on student answers.
-
-IMPORTANT: This question references a figure/chart/table/graph that you CANNOT see (it's in a PDF document).
-
-Your task:
-1. Review the student's methodology and approach based on what you can understand from the question text
-2. Provide encouraging, helpful feedback WITHOUT marking as right or wrong
-3. Comment on whether the approach/format seems reasonable
-4. Remind the student to verify their answer against the figure in the original document
-
-Rules:
-- Do NOT mark as correct or incorrect since you cannot verify against the figure
-- Be supportive and constructive
-- Focus on the problem-solving approach
-- Keep feedback to 2-3 sentences
-
-Respond in this exact JSON format:
-{
-  "cannotGrade": true,
-  "feedback": "Your feedback here. Remember to tell them to check their answer against the figure in the original document."
-}`
-          : `You are an expert math teacher evaluating student answers. 
-
-Your task:
-1. Determine if the student's answer is CORRECT or INCORRECT
-2. Provide brief, encouraging feedback WITHOUT revealing the full solution
-
-Rules:
-- Be encouraging but honest
-- If incorrect, give a hint about where they went wrong
-- Do NOT give away the answer
-- Keep feedback to 1-2 sentences max
-
-Respond in this exact JSON format:
-{
-  "isCorrect": true or false,
-  "feedback": "Your brief feedback here"
-}`
+    // A class submitting the same answer pays for one evaluation. Photos are
+    // never cached: no two are alike, and the model has to read them.
+    let cacheKey: CacheKey | null = null;
+    if (workingPhotoUrls.length === 0) {
+      cacheKey = {
+        questionVersion: await questionVersion({
+          promptVersion: GRADING_PROMPT_VERSION,
+          fullQuestionText,
+          referenceAnswer,
+          markSchemeNotes,
+          rubric: markSchemeRubric,
+          marks: question.marks,
+          requirements,
+          answerType,
+          answerOptions,
+        }),
+        // Rounding and units are judged on the answer as written
+        answerKey: answerKey(studentAnswer, steps, requirements.precision !== null || requirements.unit !== null),
+      };
+      const cached = await findCachedEvaluation(supabase, questionId, cacheKey);
+      if (cached) {
+        console.log(`Reusing cached evaluation ${cached.id}`);
+        evaluation = cached.evaluation;
+        modelRun = {
+          model: cached.model,
+          promptVersion: GRADING_PROMPT_VERSION,
+          prompt: null,
+          rawResponse: null,
+          fromCache: true,
+        };
       }
-    ];
-
-    // Only use multimodal for non-PDF image documents that have figures
-    if (hasFigure && documentUrl && !isPdf) {
-      console.log("Using multimodal evaluation with image document:", documentUrl);
-      messages.push({
-        role: "user",
-        content: [
-          {
-            type: "text",
-            text: `Question: ${questionText}
-
-Student's Answer: ${studentAnswer}
-
-The question may reference a figure, chart, or table from the document. Please look at the attached image to understand the visual context when evaluating the answer.
-
-Evaluate this answer and respond with JSON only.`
-          },
-          {
-            type: "image_url",
-            image_url: {
-              url: documentUrl
-            }
-          }
-        ]
-      });
-    } else {
-      console.log(cannotGradeAccurately 
-        ? "Using lenient evaluation (PDF with figures - cannot grade accurately)" 
-        : "Using text-only evaluation");
-      messages.push({
-        role: "user",
-        content: `Question: ${questionText}
-
-Student's Answer: ${studentAnswer}
-${cannotGradeAccurately ? "\nNote: This question references a figure/chart/table from a PDF document that you cannot see. Provide helpful feedback on their approach without marking right or wrong." : ""}
-
-Evaluate this answer and respond with JSON only.`
-      });
     }
 
-    // Use Gemini for evaluation (supports multimodal)
-    const evaluationResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages,
-      }),
-    });
-
-    if (!evaluationResponse.ok) {
-      const errorText = await evaluationResponse.text();
-      console.error("Evaluation API error:", evaluationResponse.status, errorText);
-      
-      if (evaluationResponse.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+    if (!evaluation) {
+      // Load the figures process-document cropped out for this question and its stems
+      const figureContext = await loadFigureContext(
+        supabase,
+        [questionId, ...stems.map((stem) => stem.id)],
+        fullQuestionText,
+        documentUrl
+      );
+
+      const ai = await createAiClient("evaluate-answer");
+      try {
+        const grading = await gradeWithModel(ai, {
+          fullQuestionText,
+          // A multiple choice pick is just a label; the model needs to see what it says
+          studentAnswer: describeChoice(studentAnswer, answerOptions),
+          steps,
+          referenceAnswer,
+          markSchemeNotes,
+          requirements: describeRequirements(requirements),
+          rubric: markSchemeRubric,
+          figureContext,
+          workingPhotoUrls,
+        }, onReply);
+        evaluation = grading.evaluation;
+        modelRun = {
+          model: ai.model,
+          promptVersion: GRADING_PROMPT_VERSION,
+          prompt: grading.prompt,
+          rawResponse: grading.rawResponse,
+          fromCache: false,
+        };
+      } catch (error) {
+        // The answer stays ungraded rather than being marked wrong
+        if (error instanceof InvalidModelReplyError) {
+          await recordGradingFailure(supabase, answerId, ai.model, error);
+        }
+        throw error;
       }
-      if (evaluationResponse.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+
+      if (cacheKey) {
+        await cacheEvaluation(supabase, questionId, cacheKey, evaluation, ai.model, answerId);
       }
-      
-      throw new Error(`Evaluation API error: ${evaluationResponse.status}`);
     }
+  }
+  const transcription = workingPhotoUrls.length > 0 ? evaluation.transcription?.trim() || null : null;
 
-    const evalData = await evaluationResponse.json();
-    const responseText = evalData.choices?.[0]?.message?.content || "";
-    console.log("Evaluation response:", responseText);
-
-    // Parse the evaluation result
-    let evaluation: { isCorrect?: boolean; cannotGrade?: boolean; feedback: string } = { 
-      feedback: "Unable to evaluate answer." 
-    };
-    try {
-      let cleanedText = responseText.trim();
-      if (cleanedText.startsWith("```json")) {
-        cleanedText = cleanedText.slice(7);
-      } else if (cleanedText.startsWith("```")) {
-        cleanedText = cleanedText.slice(3);
-      }
-      if (cleanedText.endsWith("```")) {
-        cleanedText = cleanedText.slice(0, -3);
-      }
-      evaluation = JSON.parse(cleanedText.trim());
-    } catch (parseError) {
-      console.error("Failed to parse evaluation:", parseError);
+  // Marks per rubric line: as the model awarded them, method marks only for a
+  // presentation slip, or all or nothing from the verdict
+  let rubricMarks: RubricMark[] | null = null;
+  if (!evaluation.cannotGrade) {
+    if (markSchemeRubric && gradedBy === "model" && Array.isArray(evaluation.awarded)) {
+      rubricMarks = awardMarks(markSchemeRubric, evaluation.awarded);
+    } else if (presentationIssue) {
+      rubricMarks = methodMarksOnly(rubric);
+    } else {
+      rubricMarks = allOrNothing(rubric, evaluation.isCorrect ?? false);
     }
+  }
+  const { score: earned, maxScore } = rubricMarks ? totalScore(rubricMarks) : { score: null, maxScore: null };
 
-    // Determine the final result
-    const isCorrect = evaluation.cannotGrade ? null : (evaluation.isCorrect ?? false);
-
-    // Update the student answer with evaluation results
-    const { error: updateError } = await supabase
-      .from("student_answers")
-      .update({
-        is_correct: isCorrect,
-        feedback: evaluation.feedback,
-      })
-      .eq("id", answerId);
-
-    if (updateError) {
-      console.error("Error updating answer:", updateError);
-      throw updateError;
+  // Determine the final result: with partial credit, only full marks is correct
+  const isCorrect = evaluation.cannotGrade ? null : earned === maxScore;
+
+  // Hints taken before this attempt cost a share of its marks, but a correct answer stays correct
+  const hintsUsed = await hintsUsedBefore(supabase, answerId, questionId);
+  const penalty = earned !== null && maxScore !== null ? hintPenalty(hintsUsed, earned, maxScore) : 0;
+  const score = earned === null ? null : Math.round((earned - penalty) * 100) / 100;
+
+  // Only the model reviews working; a final answer the checker proved right leaves the steps unjudged
+  const reviewedSteps = steps.length > 0 && gradedBy === "model" && !evaluation.cannotGrade;
+  const firstWrongStep = reviewedSteps ? validStepNumber(evaluation.firstWrongStep, steps.length) : null;
+  if (reviewedSteps) {
+    await saveStepVerdicts(supabase, answerId, steps.length, firstWrongStep);
+  }
+
+  // Audit trail first, so every stored grade can be traced back to how it was reached
+  await recordGradingRun(supabase, answerId, {
+    gradedBy,
+    model: null,
+    promptVersion: null,
+    prompt: null,
+    rawResponse: null,
+    fromCache: false,
+    ...modelRun,
+    result: { ...evaluation, isCorrect, score, maxScore, hintsUsed, hintPenalty: penalty, marks: rubricMarks, firstWrongStep },
+    error: null,
+  });
+  await recordInitialGrade(supabase, answerId, { isCorrect, score, maxScore });
+
+  // Update the student answer with evaluation results
+  const { error: updateError } = await supabase
+    .from("student_answers")
+    .update({
+      is_correct: isCorrect,
+      feedback: evaluation.feedback,
+      grading_status: "graded",
+      grading_error: null,
+      graded_by: gradedBy,
+      score,
+      max_score: maxScore,
+      hints_used: hintsUsed,
+      hint_penalty: penalty,
+      rubric_marks: rubricMarks,
+      first_wrong_step: firstWrongStep,
+      // A new reading has to be confirmed again
+      working_transcription: transcription,
+      transcription_confirmed: false,
+    })
+    .eq("id", answerId);
+
+  if (updateError) {
+    console.error("Error updating answer:", updateError);
+    throw updateError;
+  }
+
+  console.log(`Answer evaluated successfully by ${gradedBy}`, evaluation.cannotGrade ? "(cannot grade - figure reference)" : "");
+
+  return {
+    success: true,
+    isCorrect: isCorrect,
+    cannotGrade: evaluation.cannotGrade || false,
+    feedback: evaluation.feedback,
+    score,
+    maxScore,
+    hintsUsed,
+    hintPenalty: penalty,
+    marks: rubricMarks,
+    firstWrongStep,
+    gradedBy,
+    transcription,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { stream = false, ...request } = await req.json();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requestUser(supabase, req);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to submit answers" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    console.log("Answer evaluated successfully", evaluation.cannotGrade ? "(cannot grade - figure reference)" : "");
+    // Grades, penalties and audit runs are stored against the answer, so it has to be
+    // the caller's own answer to this question, on a question they can see
+    const owner = await loadAnswerOwner(supabase, request.answerId);
+    const question = owner?.userId === user.id && owner.questionId === request.questionId
+      ? await loadQuestion(supabase, request.questionId)
+      : null;
+    if (!question || !(await canSeeQuestion(supabase, user.id, question))) {
+      return new Response(
+        JSON.stringify({ error: "Answer not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Streamed: the feedback as "delta" events, then the same payload as a "done" event
+    if (stream) {
+      return sseResponse(corsHeaders, "evaluate-answer", (send) => evaluate(supabase, question, request, fieldStreamer("feedback", send)));
+    }
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        isCorrect: isCorrect,
-        cannotGrade: evaluation.cannotGrade || false,
-        feedback: evaluation.feedback,
-      }),
+      JSON.stringify(await evaluate(supabase, question, request)),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Error in evaluate-answer function:", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      { status: errorStatus(error), headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
@@ -0,0 +1,160 @@
+import { isClose, type EquivalenceResult } from "./equivalence.ts";
+import { evaluate, normalizeNotation, parseExpression, variablesOf, MathParseError } from "./math.ts";
+
+/**
+ * A stretch of the real line; endpoints may be infinite.
+ */
+interface Interval {
+  low: number;
+  high: number;
+  lowClosed: boolean;
+  highClosed: boolean;
+}
+
+const FULL_LINE: Interval = { low: -Infinity, high: Infinity, lowClosed: false, highClosed: false };
+
+/**
+ * Compares solution sets of one-variable inequalities, in inequality or interval
+ * notation: "-2 < x <= 5", "x > 3 or x < -1", "(-2, 5]", "[3, ∞)", "x ∈ (-∞, -1) ∪ (3, ∞)".
+ * "unknown" when either side cannot be read.
+ */
+export function checkInequality(studentAnswer: string, referenceAnswer: string): EquivalenceResult {
+  let student: Interval[];
+  let reference: Interval[];
+  try {
+    student = parseSolutionSet(studentAnswer);
+    reference = parseSolutionSet(referenceAnswer);
+  } catch (error) {
+    if (error instanceof MathParseError) {
+      console.log(`Inequality check skipped: ${error.message}`);
+      return "unknown";
+    }
+    throw error;
+  }
+
+  if (student.length !== reference.length) return "not_equivalent";
+  return student.every((interval, index) => sameInterval(interval, reference[index])) ? "equivalent" : "not_equivalent";
+}
+
+function parseSolutionSet(input: string): Interval[] {
+  const text = normalizeNotation(input)
+    .replace(/≤/g, "<=")
+    .replace(/≥/g, ">=")
+    .replace(/∞/g, "inf")
+    .replace(/^[a-zA-Z]\s*(∈|in)\s*/, "");
+
+  // Unions ("or", "∪") of intersections ("and")
+  const union = text.split(/\s+or\s+|∪/i).map((part) =>
+    part
+      .split(/\s+and\s+/i)
+      .map(parseInterval)
+      .reduce<Interval | null>(intersect, FULL_LINE)
+  );
+  return merge(union.filter((interval): interval is Interval => interval !== null));
+}
+
+// Null for an empty chain such as "5 < x < 3"
+function parseInterval(part: string): Interval | null {
+  const text = part.trim();
+
+  // Interval notation: "(-2, 5]", "[3, inf)"
+  const notation = /^([[(])(.+),(.+)([\])])$/.exec(text);
+  if (notation) {
+    const low = parseBound(notation[2]);
+    const high = parseBound(notation[3]);
+    // "[3, ∞]" is read as "[3, ∞)": infinity is never included
+    return {
+      low,
+      high,
+      lowClosed: notation[1] === "[" && Number.isFinite(low),
+      highClosed: notation[4] === "]" && Number.isFinite(high),
+    };
+  }
+
+  // Inequality chain: "x > 3", "3 < x", "-2 < x <= 5"
+  const pieces = text.split(/(<=|>=|<|>)/).map((piece) => piece.trim());
+  if (pieces.length !== 3 && pieces.length !== 5) {
+    throw new MathParseError(`"${text}" is not an inequality`);
+  }
+
+  let interval: Interval | null = FULL_LINE;
+  for (let i = 1; i < pieces.length; i += 2) {
+    interval = intersect(interval, comparison(pieces[i - 1], pieces[i], pieces[i + 1]));
+  }
+  return interval;
+}
+
+/**
+ * One comparison with the variable on either side, as an interval.
+ */
+function comparison(left: string, op: string, right: string): Interval {
+  const leftIsVariable = /^[a-zA-Z]$/.test(left);
+  const rightIsVariable = /^[a-zA-Z]$/.test(right);
+  if (leftIsVariable === rightIsVariable) {
+    throw new MathParseError("Expected a single variable on one side");
+  }
+
+  // Flip "3 < x" into "x > 3"
+  const FLIPPED: Record<string, string> = { "<": ">", ">": "<", "<=": ">=", ">=": "<=" };
+  const variableOp = leftIsVariable ? op : FLIPPED[op];
+  const bound = parseBound(leftIsVariable ? right : left);
+  const closed = variableOp.endsWith("=");
+
+  return variableOp.startsWith(">")
+    ? { low: bound, high: Infinity, lowClosed: closed, highClosed: false }
+    : { low: -Infinity, high: bound, lowClosed: false, highClosed: closed };
+}
+
+function parseBound(text: string): number {
+  const trimmed = text.trim().toLowerCase();
+  if (/^\+?inf(inity)?$/.test(trimmed)) return Infinity;
+  if (/^-inf(inity)?$/.test(trimmed)) return -Infinity;
+
+  const node = parseExpression(trimmed);
+  if (variablesOf(node).size > 0) throw new MathParseError("Bounds must be numbers");
+  const value = evaluate(node, {});
+  if (Number.isNaN(value)) throw new MathParseError("Bound is undefined");
+  return value;
+}
+
+// Null when the two do not overlap
+function intersect(a: Interval | null, b: Interval | null): Interval | null {
+  if (!a || !b) return null;
+  const [low, lowClosed] = a.low > b.low || (a.low === b.low && !a.lowClosed) ? [a.low, a.lowClosed] : [b.low, b.lowClosed];
+  const [high, highClosed] = a.high < b.high || (a.high === b.high && !a.highClosed) ? [a.high, a.highClosed] : [b.high, b.highClosed];
+  if (low > high || (low === high && !(lowClosed && highClosed))) return null;
+  return { low, high, lowClosed, highClosed };
+}
+
+/**
+ * Sorts intervals and joins those that overlap or touch, so equal sets compare equal.
+ */
+function merge(intervals: Interval[]): Interval[] {
+  // Compared rather than subtracted: -Infinity - -Infinity is NaN
+  const sorted = [...intervals].sort((a, b) =>
+    a.low !== b.low ? (a.low < b.low ? -1 : 1) : Number(b.lowClosed) - Number(a.lowClosed)
+  );
+  const merged: Interval[] = [];
+
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    const touches = last && (interval.low < last.high || (interval.low === last.high && (interval.lowClosed || last.highClosed)));
+    if (!touches) {
+      merged.push({ ...interval });
+      continue;
+    }
+    if (interval.high > last.high) {
+      last.high = interval.high;
+      last.highClosed = interval.highClosed;
+    } else if (interval.high === last.high) {
+      last.highClosed = last.highClosed || interval.highClosed;
+    }
+  }
+
+  return merged;
+}
+
+function sameInterval(a: Interval, b: Interval): boolean {
+  const sameBound = (x: number, y: number) => x === y || isClose(x, y);
+  return sameBound(a.low, b.low) && sameBound(a.high, b.high) && a.lowClosed === b.lowClosed && a.highClosed === b.highClosed;
+}
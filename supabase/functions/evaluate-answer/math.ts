@@ -0,0 +1,340 @@
+/**
+ * Parser and evaluator for answers written in plain notation: `^` for powers,
+ * `/` for fractions, `sqrt(x)`, implicit multiplication ("2x", "3(x+1)"). LaTeX
+ * from the OCR prompts is rewritten into it first.
+ */
+export type MathNode =
+  | { type: "num"; value: number }
+  | { type: "var"; name: string }
+  | { type: "neg"; arg: MathNode }
+  | { type: "bin"; op: "+" | "-" | "*" | "/" | "^"; left: MathNode; right: MathNode }
+  | { type: "call"; fn: string; arg: MathNode };
+
+export class MathParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MathParseError";
+  }
+}
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  ln: Math.log,
+  log: Math.log10,
+  exp: Math.exp,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+// Longest names first so "asin" is not read as "a*sin"
+const NAMES = [...Object.keys(FUNCTIONS), ...Object.keys(CONSTANTS)].sort((a, b) => b.length - a.length);
+const MULTI_LETTER_NAMES = new RegExp(NAMES.filter((name) => name.length > 1).join("|"));
+
+type Token =
+  | { kind: "num"; value: number }
+  | { kind: "name"; value: string }
+  | { kind: "op"; value: string };
+
+const SUPERSCRIPTS: Record<string, string> = {
+  "⁰": "0", "¹": "1", "²": "2", "³": "3", "⁴": "4", "⁵": "5", "⁶": "6", "⁷": "7", "⁸": "8", "⁹": "9", "⁻": "-",
+};
+
+/**
+ * Rewrites the LaTeX the OCR prompts write ("$\frac{x^{2}}{3}$") into plain
+ * notation ("((x^(2))/(3))"). Text without LaTeX comes back unchanged.
+ */
+export function fromLatex(input: string): string {
+  let text = input
+    .replace(/\$/g, "")
+    // Column vectors: "\begin{pmatrix} 3 \\ -2 \end{pmatrix}" -> "(3, -2)"
+    .replace(/\\begin\{[pbv]?matrix\}([\s\S]*?)\\end\{[pbv]?matrix\}/g, (_, rows: string) =>
+      `(${rows.split(/\\\\/).map((row) => row.trim()).join(", ")})`
+    )
+    .replace(/\\left|\\right/g, "")
+    .replace(/\\[,;:!]/g, " ");
+
+  // Innermost groups first, so nested fractions and powers come out right
+  for (let previous = ""; previous !== text; ) {
+    previous = text;
+    text = text
+      .replace(/\\[dt]?frac\{([^{}]*)\}\{([^{}]*)\}/g, "(($1)/($2))")
+      .replace(/\\sqrt\[3\]\{([^{}]*)\}/g, "cbrt($1)")
+      .replace(/\\sqrt\[([^\]]*)\]\{([^{}]*)\}/g, "(($2)^(1/($1)))")
+      .replace(/\\sqrt\{([^{}]*)\}/g, "sqrt($1)")
+      .replace(/\\(?:text|mathrm)\{([^{}]*)\}/g, "$1")
+      .replace(/\^\{([^{}]*)\}/g, "^($1)");
+  }
+
+  return text
+    .replace(/\\(?:cdot|times)(?![a-zA-Z])/g, "*")
+    .replace(/\\div(?![a-zA-Z])/g, "/")
+    .replace(/\\pi(?![a-zA-Z])/g, "π")
+    .replace(/\\(sin|cos|tan|ln|log|exp)(?![a-zA-Z])/g, "$1")
+    .replace(/\\(?:leq|le|leqslant)(?![a-zA-Z])/g, "≤")
+    .replace(/\\(?:geq|ge|geqslant)(?![a-zA-Z])/g, "≥")
+    .replace(/\\(?:neq|ne)(?![a-zA-Z])/g, "≠")
+    .replace(/\\lt(?![a-zA-Z])/g, "<")
+    .replace(/\\gt(?![a-zA-Z])/g, ">")
+    .replace(/\\(?:emptyset|varnothing)(?![a-zA-Z])/g, "∅")
+    // Set braces, escaped so LaTeX does not read them as a group
+    .replace(/\\([{}])/g, "$1");
+}
+
+/**
+ * Rewrites LaTeX and typographic variants (unicode minus, ×, ÷, π, √, superscripts,
+ * `**`) into the plain notation the parser reads.
+ */
+export function normalizeNotation(input: string): string {
+  return fromLatex(input)
+    .replace(/[−–—]/g, "-")
+    .replace(/[×·⋅]/g, "*")
+    .replace(/÷/g, "/")
+    .replace(/π/g, "pi")
+    .replace(/√\s*\(/g, "sqrt(")
+    .replace(/√\s*([a-zA-Z0-9.]+)/g, "sqrt($1)")
+    .replace(/\*\*/g, "^")
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, (sup) => `^(${[...sup].map((c) => SUPERSCRIPTS[c]).join("")})`)
+    .trim()
+    .replace(/[.\s]+$/, "");
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // "1.5e-3" is one number in scientific notation, not 1.5 * e - 3
+    const number = /^((?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/.exec(input.slice(i));
+    if (number) {
+      tokens.push({ kind: "num", value: parseFloat(number[1]) });
+      i += number[1].length;
+      continue;
+    }
+
+    if (/[a-zA-Z]/.test(char)) {
+      // Three or more loose letters in a row is a word ("none", "yes"), not a product of variables
+      if (!/[a-zA-Z]/.test(input[i - 1] ?? "")) {
+        const run = /^[a-zA-Z]+/.exec(input.slice(i))![0];
+        if (run.toLowerCase().split(MULTI_LETTER_NAMES).some((letters) => letters.length >= 3)) {
+          throw new MathParseError(`"${run}" is not an expression`);
+        }
+      }
+
+      const rest = input.slice(i).toLowerCase();
+      const name = NAMES.find((n) => rest.startsWith(n));
+      // Anything that is not a known function or constant is a one-letter variable: "xy" is x*y
+      const value = name ?? input[i];
+      tokens.push({ kind: "name", value });
+      i += value.length;
+      continue;
+    }
+
+    if ("+-*/^()[]{}".includes(char)) {
+      const value = char === "[" || char === "{" ? "(" : char === "]" || char === "}" ? ")" : char;
+      tokens.push({ kind: "op", value });
+      i++;
+      continue;
+    }
+
+    throw new MathParseError(`Unexpected character "${char}"`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses one expression (no `=`, commas or inequalities).
+ */
+export function parseExpression(input: string): MathNode {
+  const tokens = tokenize(normalizeNotation(input));
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.kind === "op" && peek()!.value === value;
+  const expectOp = (value: string) => {
+    if (!isOp(value)) throw new MathParseError(`Expected "${value}"`);
+    position++;
+  };
+
+  // Whether the next token can start a factor, for implicit multiplication
+  const startsFactor = () => {
+    const token = peek();
+    return !!token && (token.kind !== "op" || token.value === "(");
+  };
+
+  function parseSum(): MathNode {
+    let node = parseProduct();
+    while (isOp("+") || isOp("-")) {
+      const op = peek()!.value as "+" | "-";
+      position++;
+      node = { type: "bin", op, left: node, right: parseProduct() };
+    }
+    return node;
+  }
+
+  function parseProduct(): MathNode {
+    let node = parseUnary();
+    while (true) {
+      if (isOp("*") || isOp("/")) {
+        const op = peek()!.value as "*" | "/";
+        position++;
+        node = { type: "bin", op, left: node, right: parseUnary() };
+      } else if (startsFactor()) {
+        node = { type: "bin", op: "*", left: node, right: parsePower() };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  function parseUnary(): MathNode {
+    if (isOp("-")) {
+      position++;
+      return { type: "neg", arg: parseUnary() };
+    }
+    if (isOp("+")) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  }
+
+  function parsePower(): MathNode {
+    const base = parsePrimary();
+    if (isOp("^")) {
+      position++;
+      // Right associative, and allows a signed exponent: 2^-1, x^(-3)
+      return { type: "bin", op: "^", left: base, right: parseUnary() };
+    }
+    return base;
+  }
+
+  function parsePrimary(): MathNode {
+    const token = peek();
+    if (!token) throw new MathParseError("Unexpected end of expression");
+    position++;
+
+    if (token.kind === "num") return { type: "num", value: token.value };
+
+    if (token.kind === "name") {
+      if (token.value in FUNCTIONS) {
+        // "sqrt(x)" or, less formally, "sqrt 2"
+        const arg = isOp("(") ? parsePrimary() : parsePower();
+        return { type: "call", fn: token.value, arg };
+      }
+      if (token.value in CONSTANTS) return { type: "num", value: CONSTANTS[token.value] };
+      return { type: "var", name: token.value };
+    }
+
+    if (token.value === "(") {
+      const inner = parseSum();
+      expectOp(")");
+      return inner;
+    }
+
+    throw new MathParseError(`Unexpected "${token.value}"`);
+  }
+
+  if (tokens.length === 0) throw new MathParseError("Empty expression");
+  const tree = parseSum();
+  if (position < tokens.length) throw new MathParseError(`Unexpected "${tokens[position].kind === "num" ? "number" : tokens[position].value}"`);
+  return tree;
+}
+
+export function evaluate(node: MathNode, scope: Record<string, number>): number {
+  switch (node.type) {
+    case "num":
+      return node.value;
+    case "var":
+      return scope[node.name] ?? NaN;
+    case "neg":
+      return -evaluate(node.arg, scope);
+    case "call":
+      return FUNCTIONS[node.fn](evaluate(node.arg, scope));
+    case "bin": {
+      const left = evaluate(node.left, scope);
+      const right = evaluate(node.right, scope);
+      switch (node.op) {
+        case "+":
+          return left + right;
+        case "-":
+          return left - right;
+        case "*":
+          return left * right;
+        case "/":
+          return left / right;
+        case "^":
+          return Math.pow(left, right);
+      }
+    }
+  }
+}
+
+export function variablesOf(node: MathNode, into = new Set<string>()): Set<string> {
+  switch (node.type) {
+    case "var":
+      into.add(node.name);
+      break;
+    case "neg":
+    case "call":
+      variablesOf(node.arg, into);
+      break;
+    case "bin":
+      variablesOf(node.left, into);
+      variablesOf(node.right, into);
+      break;
+  }
+  return into;
+}
+
+/**
+ * Prints an expression in one canonical form, so answers that differ only in
+ * spacing, implicit multiplication or the order of terms and factors print the
+ * same: "2x + 1", "1+2*x" and "x2+1" all give "(2*x)+1".
+ */
+export function formatExpression(node: MathNode): string {
+  switch (node.type) {
+    case "num":
+      return String(node.value);
+    case "var":
+      return node.name;
+    case "neg":
+      return `-${formatOperand(node.arg)}`;
+    case "call":
+      return `${node.fn}(${formatExpression(node.arg)})`;
+    case "bin":
+      if (node.op === "+" || node.op === "*") {
+        return operandsOf(node, node.op).map(formatOperand).sort().join(node.op);
+      }
+      return `${formatOperand(node.left)}${node.op}${formatOperand(node.right)}`;
+  }
+}
+
+// Every operand of a chain of the same commutative operator: a+(b+c) -> [a, b, c]
+function operandsOf(node: MathNode, op: "+" | "*"): MathNode[] {
+  if (node.type === "bin" && node.op === op) return [...operandsOf(node.left, op), ...operandsOf(node.right, op)];
+  return [node];
+}
+
+function formatOperand(node: MathNode): string {
+  const text = formatExpression(node);
+  return node.type === "bin" || node.type === "neg" ? `(${text})` : text;
+}
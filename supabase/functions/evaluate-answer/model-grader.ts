@@ -0,0 +1,222 @@
+import { z } from "https://esm.sh/zod@3.25.76";
+import { completeJsonWithTranscript, type AiClient, type ChatMessage } from "../_shared/ai.ts";
+import type { FigureContext } from "../_shared/figures.ts";
+import { LATEX_RULE } from "../_shared/latex.ts";
+import type { RubricLine } from "../_shared/rubric.ts";
+
+export interface Evaluation {
+  isCorrect?: boolean;
+  cannotGrade?: boolean;
+  feedback: string;
+  // Marks awarded per rubric line, in rubric order (only when grading against a rubric)
+  awarded?: number[];
+  // 1-based step where the reasoning first goes wrong (only when working was submitted)
+  firstWrongStep?: number | null;
+  // What the model read from photos of handwritten working (only when photos were attached)
+  transcription?: string;
+}
+
+// Stored with every model grading; bump it whenever the prompt below changes
+export const GRADING_PROMPT_VERSION = "2026-10-19.1";
+
+/**
+ * The model's evaluation with what it was sent and what it replied, for the audit trail.
+ */
+export interface ModelGrading {
+  evaluation: Evaluation;
+  prompt: ChatMessage[];
+  rawResponse: string;
+}
+
+export interface ModelGradingInput {
+  fullQuestionText: string;
+  studentAnswer: string;
+  // Numbered working, in order; empty when only a final answer was submitted
+  steps: string[];
+  referenceAnswer: string | null;
+  markSchemeNotes: string | null;
+  // How the answer must be given, e.g. "to 3 s.f., in cm²"
+  requirements: string | null;
+  // The mark scheme's method and accuracy marks, when it gave a breakdown
+  rubric: RubricLine[] | null;
+  figureContext: FigureContext;
+  // Photos of the student's handwritten working, in order
+  workingPhotoUrls: string[];
+}
+
+/**
+ * Asks the model to grade an answer, with the question's figures and, when a
+ * mark scheme is attached, the authoritative reference answer. With `onReply`
+ * the reply is streamed to it as it arrives.
+ */
+export async function gradeWithModel(
+  ai: AiClient,
+  { fullQuestionText, studentAnswer, steps, referenceAnswer, markSchemeNotes, requirements, rubric, figureContext, workingPhotoUrls }: ModelGradingInput,
+  onReply?: (replySoFar: string) => void
+): Promise<ModelGrading> {
+  const hasPhotos = workingPhotoUrls.length > 0;
+  // With photos the final answer may only be written on paper
+  const finalAnswer = studentAnswer.trim() || (hasPhotos ? "(not typed; read it from the photos of their working)" : studentAnswer);
+  const answerText = steps.length > 0
+    ? `Student's Working:\n${steps.map((step, index) => `${index + 1}. ${step}`).join("\n")}\n\nStudent's Final Answer: ${finalAnswer}`
+    : `Student's ${hasPhotos ? "Final " : ""}Answer: ${finalAnswer}`;
+  const photoRule = hasPhotos
+    ? `- Photos of the student's handwritten working are attached. First transcribe them exactly as written, one line per line of working, into "transcription" (use ^ for powers, / for fractions, sqrt() for roots; write [unclear] for anything you cannot read). Do not correct their mistakes in the transcription
+`
+    : "";
+  const transcriptionField = hasPhotos ? `
+  "transcription": "line 1\\nline 2\\n...",` : "";
+  const referenceContext = referenceAnswer
+    ? `\n\nReference answer from the mark scheme (do NOT reveal it): ${referenceAnswer}${markSchemeNotes ? `\nMark scheme notes: ${markSchemeNotes}` : ""}`
+    : "";
+  const requirementsContext = requirements ? `\n\nThe answer must be given ${requirements}.` : "";
+  const rubricContext = rubric
+    ? `\n\nMark scheme rubric (do NOT reveal it):\n${rubric
+        .map((line, index) => `${index + 1}. [${line.type}, ${line.marks} mark${line.marks !== 1 ? "s" : ""}] ${line.description}`)
+        .join("\n")}`
+    : "";
+
+  // Only when the question needs a figure we have no image of (and no reference answer) can we not grade accurately
+  const cannotGradeAccurately = figureContext.missingFigure && !referenceAnswer;
+
+  // Build messages for AI
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: cannotGradeAccurately 
+        ? `You are an expert math teacher providing feedback on student answers.
+
+IMPORTANT: This question references a figure/chart/table/graph that you CANNOT see (it could not be extracted from the document).
+
+Your task:
+1. Review the student's methodology and approach based on what you can understand from the question text
+2. Provide encouraging, helpful feedback WITHOUT marking as right or wrong
+3. Comment on whether the approach/format seems reasonable
+4. Remind the student to verify their answer against the figure in the original document
+
+Rules:
+- Do NOT mark as correct or incorrect since you cannot verify against the figure
+- Be supportive and constructive
+- Focus on the problem-solving approach
+- Keep feedback to 2-3 sentences
+- ${LATEX_RULE} (escape each backslash inside the JSON string)
+${photoRule}
+Respond in this exact JSON format:
+{
+  "cannotGrade": true,${transcriptionField}
+  "feedback": "Your feedback here. Remember to tell them to check their answer against the figure in the original document."
+}`
+        : `You are an expert math teacher evaluating student answers. 
+
+Your task:
+1. Determine if the student's answer is CORRECT or INCORRECT
+2. Provide brief, encouraging feedback WITHOUT revealing the full solution
+
+Rules:
+- Be encouraging but honest
+- If incorrect, give a hint about where they went wrong
+- Do NOT give away the answer
+- Keep feedback to 1-2 sentences max
+- ${LATEX_RULE} (escape each backslash inside the JSON string)
+${referenceAnswer ? `- You are given the official reference answer from the mark scheme. It is AUTHORITATIVE: the answer is correct only if it is mathematically equivalent to the reference answer (respecting any mark scheme notes). Never override it with your own calculation
+- Never quote or hint at the reference answer in your feedback
+` : ""}${rubric ? `- You are given the mark scheme rubric. Award each line independently: method marks for a correct method even if the final answer is wrong, accuracy marks only for the accurate result. A correct final answer on its own earns every mark
+- The answer is correct only if it earns every mark
+` : ""}${requirements ? `- The question says how the answer must be given (precision and/or unit). An answer with the right value but the wrong rounding or unit is NOT correct; say exactly what is wrong, e.g. "Correct value, but you needed 3 s.f."
+` : ""}${steps.length > 0 ? `- The student showed their working as numbered steps. Find the FIRST step where the reasoning goes wrong (an invalid manipulation, an arithmetic slip or a wrong method) and point your feedback at that step, e.g. "In step 3, ...". Use null when every step is valid
+` : ""}${hasPhotos ? `${photoRule}- Grade the method shown in the photos as well as the final answer, as you would written working in an exam. If no final answer was typed, take it from the photos
+` : ""}
+Respond in this exact JSON format:
+{
+  "isCorrect": true or false,${transcriptionField}${rubric ? `
+  "awarded": [marks awarded for each rubric line, in order, e.g. ${JSON.stringify(rubric.map((line) => line.marks))}],` : ""}${steps.length > 0 ? `
+  "firstWrongStep": step number or null,` : ""}
+  "feedback": "Your brief feedback here"
+}`
+    }
+  ];
+
+  // Send the exact figure(s) the question refers to, then the photos of working
+  if (figureContext.imageUrls.length > 0 || hasPhotos) {
+    console.log(`Using multimodal evaluation with ${figureContext.imageUrls.length} figure(s) and ${workingPhotoUrls.length} photo(s) of working`);
+    const imageContext = [
+      figureContext.imageUrls.length > 0 &&
+        `The first ${figureContext.imageUrls.length} attached image(s) show the figure, chart, table or diagram this question refers to. Read any values you need from them when evaluating the answer.`,
+      hasPhotos && `The last ${workingPhotoUrls.length} attached image(s) are photos of the student's handwritten working.`,
+    ].filter(Boolean).join("\n");
+    messages.push({
+      role: "user",
+      content: [
+        {
+          type: "text",
+          text: `Question: ${fullQuestionText}
+
+${answerText}${requirementsContext}${referenceContext}${rubricContext}
+${cannotGradeAccurately ? "\nNote: This question references a figure/chart/table from the document that you cannot see. Provide helpful feedback on their approach without marking right or wrong.\n" : ""}
+${imageContext}
+
+Evaluate this answer and respond with JSON only.`
+        },
+        ...[...figureContext.imageUrls, ...workingPhotoUrls].map((url) => ({
+          type: "image_url",
+          image_url: { url },
+        })),
+      ]
+    });
+  } else {
+    console.log(cannotGradeAccurately 
+      ? "Using lenient evaluation (figure not available - cannot grade accurately)" 
+      : referenceAnswer ? "Using text-only evaluation against reference answer" : "Using text-only evaluation");
+    messages.push({
+      role: "user",
+      content: `Question: ${fullQuestionText}
+
+${answerText}${requirementsContext}${referenceContext}${rubricContext}
+${cannotGradeAccurately ? "\nNote: This question references a figure/chart/table from the document that you cannot see. Provide helpful feedback on their approach without marking right or wrong." : ""}
+
+Evaluate this answer and respond with JSON only.`
+    });
+  }
+
+  // Rate limit and out-of-credit errors are passed straight back to the client, and
+  // a reply that cannot be repaired throws rather than becoming a grade
+  const { data, messages: prompt, reply } = await completeJsonWithTranscript(
+    ai,
+    messages,
+    evaluationSchema(cannotGradeAccurately, rubric, steps.length, hasPhotos),
+    onReply
+  );
+  console.log("Evaluation:", JSON.stringify(data));
+  return { evaluation: data, prompt, rawResponse: reply };
+}
+
+/**
+ * The reply format the prompt asked for: a verdict with marks for every rubric
+ * line and a step number within the working, or feedback only when the answer
+ * cannot be graded.
+ */
+function evaluationSchema(
+  cannotGrade: boolean,
+  rubric: RubricLine[] | null,
+  stepCount: number,
+  hasPhotos: boolean
+): z.ZodType<Evaluation, z.ZodTypeDef, unknown> {
+  const feedback = z.string().trim().min(1);
+  const transcription = hasPhotos ? z.string().trim().min(1) : z.string().optional();
+
+  if (cannotGrade) {
+    return z.object({ cannotGrade: z.literal(true), feedback, transcription });
+  }
+
+  return z.object({
+    isCorrect: z.boolean(),
+    awarded: rubric
+      ? z.array(z.number().min(0)).length(rubric.length)
+      : z.array(z.number()).optional(),
+    firstWrongStep: stepCount > 0
+      ? z.number().int().min(1).max(stepCount).nullable()
+      : z.number().nullable().optional(),
+    feedback,
+    transcription,
+  });
+}
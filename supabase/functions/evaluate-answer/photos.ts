@@ -0,0 +1,20 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * URLs of the photos of handwritten working attached to an answer, in the order
+ * the student added them.
+ */
+export async function loadWorkingPhotos(supabase: SupabaseClient, answerId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("answer_photos")
+    .select("image_url")
+    .eq("answer_id", answerId)
+    .order("sort_order", { ascending: true });
+
+  if (error) {
+    console.error("Error loading working photos:", error);
+    throw error;
+  }
+
+  return (data ?? []).map((photo) => photo.image_url);
+}
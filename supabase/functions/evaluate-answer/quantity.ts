@@ -0,0 +1,242 @@
+import { isClose, type EquivalenceResult } from "./equivalence.ts";
+import { evaluate, normalizeNotation, parseExpression, variablesOf, MathParseError } from "./math.ts";
+
+/**
+ * How a question wants its answer given, as process-document extracted it
+ * ("give your answer to 3 significant figures", "in cm²").
+ */
+export interface AnswerRequirements {
+  precision: { type: "sig_figs" | "decimal_places"; digits: number } | null;
+  unit: string | null;
+}
+
+export interface QuantityCheck {
+  result: EquivalenceResult;
+  // Set when the value is right but it was rounded or expressed wrongly
+  issue?: string;
+  // Set when the value is wrong in a way worth naming, e.g. cut off instead of rounded
+  slip?: string;
+}
+
+type Precision = NonNullable<AnswerRequirements["precision"]>;
+
+// Factors to the SI unit of each dimension
+const UNITS: Record<string, { dimension: string; factor: number }> = {
+  mm: { dimension: "length", factor: 1e-3 },
+  cm: { dimension: "length", factor: 1e-2 },
+  m: { dimension: "length", factor: 1 },
+  km: { dimension: "length", factor: 1e3 },
+  "mm^2": { dimension: "area", factor: 1e-6 },
+  "cm^2": { dimension: "area", factor: 1e-4 },
+  "m^2": { dimension: "area", factor: 1 },
+  "km^2": { dimension: "area", factor: 1e6 },
+  "mm^3": { dimension: "volume", factor: 1e-9 },
+  "cm^3": { dimension: "volume", factor: 1e-6 },
+  "m^3": { dimension: "volume", factor: 1 },
+  ml: { dimension: "volume", factor: 1e-6 },
+  l: { dimension: "volume", factor: 1e-3 },
+  mg: { dimension: "mass", factor: 1e-6 },
+  g: { dimension: "mass", factor: 1e-3 },
+  kg: { dimension: "mass", factor: 1 },
+  t: { dimension: "mass", factor: 1e3 },
+  s: { dimension: "time", factor: 1 },
+  min: { dimension: "time", factor: 60 },
+  h: { dimension: "time", factor: 3600 },
+  "m/s": { dimension: "speed", factor: 1 },
+  "km/h": { dimension: "speed", factor: 1 / 3.6 },
+  mph: { dimension: "speed", factor: 0.44704 },
+  "°": { dimension: "angle", factor: 1 },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  cc: "cm^3",
+  litre: "l",
+  litres: "l",
+  liter: "l",
+  liters: "l",
+  sec: "s",
+  secs: "s",
+  seconds: "s",
+  mins: "min",
+  minutes: "min",
+  hr: "h",
+  hrs: "h",
+  hours: "h",
+  kmh: "km/h",
+  kph: "km/h",
+  deg: "°",
+  degrees: "°",
+};
+
+/**
+ * "cm²", "cm^(2)" and "cm2" all become "cm^2". Empty for no unit.
+ */
+function normalizeUnit(unit: string): string {
+  const compact = unit
+    .toLowerCase()
+    .replace(/\^\((\d)\)/g, "^$1")
+    .replace(/²/g, "^2")
+    .replace(/³/g, "^3")
+    .replace(/\s+/g, "")
+    .replace(/^(mm|cm|m|km)([23])$/, "$1^$2");
+  return UNIT_ALIASES[compact] ?? compact;
+}
+
+/**
+ * "12.3 cm^2" -> { text: "12.3", unit: "cm^2" }. An "x =" or "A =" prefix is ignored.
+ */
+function splitQuantity(answer: string): { text: string; value: number; unit: string } | null {
+  const match = /^(-?(?:\d+\.?\d*|\.\d+))\s*(.*)$/.exec(normalizeNotation(answer).replace(/^[a-zA-Z]\s*=\s*/, ""));
+  if (!match) return null;
+  return { text: match[1], value: parseFloat(match[1]), unit: normalizeUnit(match[2]) };
+}
+
+/**
+ * The reference as a plain number and unit: "12.35 cm^2", or an exact
+ * expression such as "sqrt(153)" or "5/3".
+ */
+function referenceQuantity(reference: string): { value: number; unit: string } | null {
+  const quantity = splitQuantity(reference);
+  if (quantity && (quantity.unit === "" || UNITS[quantity.unit])) return quantity;
+
+  try {
+    const node = parseExpression(reference);
+    if (variablesOf(node).size > 0) return null;
+    const value = evaluate(node, {});
+    return Number.isFinite(value) ? { value, unit: "" } : null;
+  } catch (error) {
+    if (error instanceof MathParseError) return null;
+    throw error;
+  }
+}
+
+/**
+ * The value in `to`, or null when the units are unknown or measure different things.
+ */
+function convert(value: number, from: string, to: string): number | null {
+  if (from === to) return value;
+  const fromUnit = UNITS[from];
+  const toUnit = UNITS[to];
+  if (!fromUnit || !toUnit || fromUnit.dimension !== toUnit.dimension) return null;
+  return (value * fromUnit.factor) / toUnit.factor;
+}
+
+// Decimal places to round to: fixed, or enough for the significant figures of this value
+function placesFor(value: number, precision: Precision): number {
+  if (precision.type === "decimal_places" || value === 0) return precision.digits;
+  return precision.digits - 1 - Math.floor(Math.log10(Math.abs(value)));
+}
+
+// The nudge keeps 12.35 (stored as 12.34999...) rounding up like it does on paper
+function roundTo(value: number, precision: Precision): number {
+  const factor = Math.pow(10, placesFor(value, precision));
+  return (Math.sign(value) * Math.floor(Math.abs(value) * factor + 0.5 + 1e-9)) / factor;
+}
+
+function truncateTo(value: number, precision: Precision): number {
+  const factor = Math.pow(10, placesFor(value, precision));
+  return (Math.sign(value) * Math.floor(Math.abs(value) * factor + 1e-9)) / factor;
+}
+
+/**
+ * The precisions a number is written to: "12.30" is exactly 4 s.f. and 2 d.p.,
+ * "1200" could be 2, 3 or 4 s.f.
+ */
+function writtenPrecisions(text: string, type: Precision["type"]): number[] {
+  const [whole, fraction] = text.replace(/^-/, "").split(".");
+  if (type === "decimal_places") return [fraction?.length ?? 0];
+
+  const digits = `${whole}${fraction ?? ""}`.replace(/^0+/, "");
+  if (digits.length === 0) return [1];
+  if (fraction !== undefined) return [digits.length];
+
+  const significant = digits.replace(/0+$/, "").length;
+  return Array.from({ length: digits.length - significant + 1 }, (_, i) => significant + i);
+}
+
+export function formatUnit(unit: string): string {
+  return unit.replace(/\^2/g, "²").replace(/\^3/g, "³");
+}
+
+function formatPrecision(precision: Precision): string {
+  return `${precision.digits} ${precision.type === "sig_figs" ? "s.f." : "d.p."}`;
+}
+
+/**
+ * The requirements in words for the model, e.g. "to 3 s.f., in cm²".
+ */
+export function describeRequirements({ precision, unit }: AnswerRequirements): string | null {
+  const parts = [precision && `to ${formatPrecision(precision)}`, unit && `in ${formatUnit(normalizeUnit(unit))}`].filter(Boolean);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+/**
+ * Checks a numeric answer against the reference when the question asks for a
+ * precision or a unit: rounds the reference as asked, converts the student's
+ * units, and names what is wrong when only the presentation is
+ * ("Correct value, but you needed 3 s.f."). "unknown" when either side is not
+ * a plain quantity in units we know, so the caller falls back to the other checks.
+ */
+export function checkQuantity(
+  studentAnswer: string,
+  referenceAnswer: string,
+  requirements: AnswerRequirements
+): QuantityCheck {
+  const { precision } = requirements;
+  if (!precision && !requirements.unit) return { result: "unknown" };
+
+  const student = splitQuantity(studentAnswer);
+  const reference = referenceQuantity(referenceAnswer);
+  if (!student || !reference) return { result: "unknown" };
+
+  // A missing unit is read as the one asked for
+  const requiredUnit = requirements.unit ? normalizeUnit(requirements.unit) : reference.unit;
+  const studentUnit = student.unit || requiredUnit;
+  const studentValue = convert(student.value, studentUnit, requiredUnit);
+  const referenceValue = convert(reference.value, reference.unit || requiredUnit, requiredUnit);
+  if (studentValue === null || referenceValue === null) return { result: "unknown" };
+
+  const issues: string[] = [];
+  // Only a unit the question named has to be used; otherwise any conversion is fine
+  if (requirements.unit && studentUnit !== requiredUnit) {
+    issues.push(`the answer in ${formatUnit(requiredUnit)}`);
+  }
+
+  if (!precision) {
+    if (isClose(studentValue, referenceValue)) {
+      return issues.length > 0 ? { result: "not_equivalent", issue: correctValueBut(issues) } : { result: "equivalent" };
+    }
+    return { result: "not_equivalent" };
+  }
+
+  const expected = roundTo(referenceValue, precision);
+  const written = writtenPrecisions(student.text, precision.type);
+  const writtenAsAsked = written.includes(precision.digits);
+
+  // Right digits, right precision (possibly in another unit)
+  if (isClose(studentValue, expected) && writtenAsAsked) {
+    return issues.length > 0 ? { result: "not_equivalent", issue: correctValueBut(issues) } : { result: "equivalent" };
+  }
+
+  // The exact value, or the value rounded to some other precision
+  const roundedOtherwise = written.some((digits) =>
+    isClose(studentValue, roundTo(referenceValue, { type: precision.type, digits }))
+  );
+  if (isClose(studentValue, expected) || roundedOtherwise || isClose(studentValue, referenceValue)) {
+    return { result: "not_equivalent", issue: correctValueBut([formatPrecision(precision), ...issues]) };
+  }
+
+  if (writtenAsAsked && isClose(studentValue, truncateTo(referenceValue, precision))) {
+    return {
+      result: "not_equivalent",
+      slip: `Nearly: round to ${formatPrecision(precision)} rather than cutting off the extra digits.`,
+    };
+  }
+
+  return { result: "not_equivalent" };
+}
+
+function correctValueBut(issues: string[]): string {
+  // "3 s.f." already ends the sentence
+  return `Correct value, but you needed ${issues.join(" and ")}`.replace(/\.?$/, ".");
+}
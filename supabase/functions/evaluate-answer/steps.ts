@@ -0,0 +1,52 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Cleans up the numbered working sent with an answer: blank steps are dropped.
+ */
+export function parseSteps(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.map((step) => String(step ?? "").trim()).filter((step) => step.length > 0);
+}
+
+/**
+ * The step number the model pointed at, or null when it is missing or not one of the steps.
+ */
+export function validStepNumber(value: unknown, stepCount: number): number | null {
+  const step = Number(value);
+  return Number.isInteger(step) && step >= 1 && step <= stepCount ? step : null;
+}
+
+/**
+ * Marks the steps before the first wrong one as correct and that step as wrong.
+ * Steps after it are left unjudged. With no wrong step, every step is correct.
+ */
+export async function saveStepVerdicts(
+  supabase: SupabaseClient,
+  answerId: string,
+  stepCount: number,
+  firstWrongStep: number | null
+): Promise<void> {
+  const { error: correctError } = await supabase
+    .from("answer_steps")
+    .update({ is_correct: true })
+    .eq("answer_id", answerId)
+    .lt("step_number", firstWrongStep ?? stepCount + 1);
+
+  if (correctError) {
+    console.error("Error saving step verdicts:", correctError);
+    throw correctError;
+  }
+
+  if (firstWrongStep === null) return;
+
+  const { error: wrongError } = await supabase
+    .from("answer_steps")
+    .update({ is_correct: false })
+    .eq("answer_id", answerId)
+    .eq("step_number", firstWrongStep);
+
+  if (wrongError) {
+    console.error("Error saving step verdicts:", wrongError);
+    throw wrongError;
+  }
+}
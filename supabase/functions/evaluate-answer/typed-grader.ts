@@ -0,0 +1,100 @@
+import type { AnswerOption, AnswerType } from "../_shared/answer-types.ts";
+import { checkEquivalence, type EquivalenceResult } from "./equivalence.ts";
+import { checkInequality } from "./inequality.ts";
+import { fromLatex } from "./math.ts";
+
+/**
+ * Compares an answer with the reference the way its answer type calls for.
+ * Types without special handling (numeric, expression, equation, free text)
+ * use the general equivalence checker.
+ */
+export function checkByType(
+  answerType: AnswerType | null,
+  studentAnswer: string,
+  referenceAnswer: string,
+  options: AnswerOption[] | null
+): EquivalenceResult {
+  // Mark scheme answers are LaTeX like the question paper; brackets and braces are
+  // only compared once they are plain
+  const student = fromLatex(studentAnswer);
+  const reference = fromLatex(referenceAnswer);
+
+  switch (answerType) {
+    case "multiple_choice":
+      return compareChoices(choiceLabel(student, options), choiceLabel(reference, options));
+    case "true_false":
+      return compareChoices(parseTrueFalse(student), parseTrueFalse(reference));
+    case "inequality":
+      return checkInequality(student, reference);
+    case "coordinates":
+      return checkEquivalence(asTuple(student), asTuple(reference));
+    case "vector":
+      return checkEquivalence(asTuple(fromUnitVectors(student)), asTuple(fromUnitVectors(reference)));
+    case "set":
+      return compareSets(student, reference);
+    default:
+      return checkEquivalence(student, reference);
+  }
+}
+
+function compareChoices<T>(student: T | null, reference: T | null): EquivalenceResult {
+  if (student === null || reference === null) return "unknown";
+  return student === reference ? "equivalent" : "not_equivalent";
+}
+
+/**
+ * The option an answer picks: its label ("B", "(b)", "Option B") or its exact text.
+ */
+function choiceLabel(answer: string, options: AnswerOption[] | null): string | null {
+  const normalize = (text: string) => fromLatex(text).toLowerCase().replace(/^option\s+/, "").replace(/[\s().:]/g, "");
+  const value = normalize(answer);
+  if (!value) return null;
+  if (!options) return value;
+
+  const option = options.find((o) => normalize(o.label) === value) ?? options.find((o) => normalize(o.text) === value);
+  return option ? normalize(option.label) : null;
+}
+
+function parseTrueFalse(answer: string): boolean | null {
+  const value = answer.trim().toLowerCase().replace(/[.!]$/, "");
+  if (["true", "t", "yes", "y"].includes(value)) return true;
+  if (["false", "f", "no", "n"].includes(value)) return false;
+  return null;
+}
+
+// "3, -2" typed without brackets is still an ordered pair, not a list of solutions
+function asTuple(answer: string): string {
+  const trimmed = answer.trim();
+  return /^[([].*[)\]]$/.test(trimmed) ? trimmed : `(${trimmed})`;
+}
+
+/**
+ * "3i - 2j + k" -> "(3, -2, 1)". Anything else is returned unchanged.
+ */
+function fromUnitVectors(answer: string): string {
+  const compact = answer.replace(/\s+/g, "");
+  if (!/^([+-]?[\d./]*[ijk])+$/.test(compact)) return answer;
+
+  const components: Record<string, string> = { i: "0", j: "0", k: "0" };
+  for (const [, sign, coefficient, unit] of compact.matchAll(/([+-]?)([\d./]*)([ijk])/g)) {
+    components[unit] = `${sign === "-" ? "-" : ""}${coefficient || "1"}`;
+  }
+
+  const values = compact.includes("k") ? [components.i, components.j, components.k] : [components.i, components.j];
+  return `(${values.join(", ")})`;
+}
+
+/**
+ * Sets compare without order: "{1, 2, 3}" equals "{3, 1, 2}".
+ */
+function compareSets(studentAnswer: string, referenceAnswer: string): EquivalenceResult {
+  const elements = (answer: string) => answer.trim().replace(/^\{(.*)\}$/, "$1").trim();
+  const isEmpty = (text: string) => text === "" || text === "∅";
+
+  const student = elements(studentAnswer);
+  const reference = elements(referenceAnswer);
+  if (isEmpty(student) || isEmpty(reference)) {
+    return isEmpty(student) === isEmpty(reference) ? "equivalent" : "not_equivalent";
+  }
+  return checkEquivalence(student, reference);
+}
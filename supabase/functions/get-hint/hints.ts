@@ -0,0 +1,49 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { HintLevel } from "../_shared/hints.ts";
+
+/**
+ * The hints the student has already been given for the question, oldest first.
+ * Their count, not anything the client sends, decides the next level and the limit.
+ */
+export async function loadHints(supabase: SupabaseClient, userId: string, questionId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from("hints")
+    .select("content")
+    .eq("user_id", userId)
+    .eq("question_id", questionId)
+    .order("hint_number", { ascending: true });
+
+  if (error) {
+    console.error("Error loading hints:", error);
+    throw error;
+  }
+
+  return (data ?? []).map((row) => row.content);
+}
+
+/**
+ * Records a hint before it is returned, so evaluate-answer always charges for it.
+ * Two requests racing for the same hint number hit the unique index and the
+ * second fails rather than giving a free hint.
+ */
+export async function saveHint(
+  supabase: SupabaseClient,
+  userId: string,
+  questionId: string,
+  hintNumber: number,
+  level: HintLevel,
+  content: string
+) {
+  const { error } = await supabase.from("hints").insert({
+    user_id: userId,
+    question_id: questionId,
+    hint_number: hintNumber,
+    level,
+    content,
+  });
+
+  if (error) {
+    console.error("Error saving hint:", error);
+    throw error;
+  }
+}
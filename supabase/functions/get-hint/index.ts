@@ -1,146 +1,193 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.25.76";
+import { completeJson, createAiClient, errorStatus, type ChatMessage } from "../_shared/ai.ts";
+import { requestUser } from "../_shared/auth.ts";
+import { loadFigureContext } from "../_shared/figures.ts";
+import { MAX_HINTS, nextHintLevel, type HintLevelSpec } from "../_shared/hints.ts";
+import { LATEX_RULE } from "../_shared/latex.ts";
+import { canSeeQuestion, loadQuestion, loadStems, withStems } from "../_shared/questions.ts";
+import { fieldStreamer, sseResponse } from "../_shared/stream.ts";
+import { loadHints, saveHint } from "./hints.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-serve(async (req) => {
-  if (req.method === "OPTIONS") {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { questionText, previousHints = [], documentUrl } = await req.json();
-    console.log(`Getting hint for question, previous hints count: ${previousHints.length}`);
-
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
-    }
-
-    const previousHintsContext = previousHints.length > 0
-      ? `\n\nPrevious hints already given:\n${previousHints.map((h: string, i: number) => `${i + 1}. ${h}`).join('\n')}`
-      : "";
-
-    // Check if question references figures/charts/tables
-    const hasFigure = questionText.toLowerCase().includes("[see figure") || 
-                      questionText.toLowerCase().includes("figure") ||
-                      questionText.toLowerCase().includes("chart") ||
-                      questionText.toLowerCase().includes("graph") ||
-                      questionText.toLowerCase().includes("diagram") ||
-                      questionText.toLowerCase().includes("table");
-
-    // Check if document is a PDF (Gemini vision API doesn't support PDFs directly)
-    const isPdf = documentUrl?.toLowerCase().endsWith('.pdf');
-    const cannotSeeFigure = hasFigure && isPdf;
-
-    // Build messages for AI
-    const messages: any[] = [
-      {
-        role: "system",
-        content: `You are a helpful math tutor providing hints to students.
+const hintSchema = z.object({ hint: z.string().trim().min(1) });
+
+interface HintRequest {
+  userId: string;
+  questionId: string;
+  questionText: string;
+  // The hints already saved for the student and question, oldest first
+  previousHints: string[];
+  documentUrl?: string | null;
+}
+
+/**
+ * Generates the hint at `level` and saves it for the student. With `onReply`
+ * the model's reply is streamed to it as it arrives.
+ */
+async function generateHint(
+  supabase: SupabaseClient,
+  { userId, questionId, questionText, previousHints, documentUrl }: HintRequest,
+  level: HintLevelSpec,
+  onReply?: (replySoFar: string) => void
+) {
+  const ai = await createAiClient("get-hint");
+
+  const previousHintsContext = previousHints.length > 0
+    ? `\n\nPrevious hints already given:\n${previousHints.map((h: string, i: number) => `${i + 1}. ${h}`).join('\n')}`
+    : "";
+
+  // Parts of a multi-part question are graded with their shared stem
+  const stems = await loadStems(supabase, questionId);
+  const fullQuestionText = withStems(stems, questionText);
+
+  // Load the figures process-document cropped out for this question and its stems
+  const figureContext = await loadFigureContext(
+    supabase,
+    [questionId, ...stems.map((stem) => stem.id)],
+    fullQuestionText,
+    documentUrl
+  );
+  const cannotSeeFigure = figureContext.missingFigure;
+
+  // Build messages for AI
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `You are a helpful math tutor providing hints to students.
 
 Your task:
 1. Provide a helpful hint that guides the student toward solving the problem
 2. Do NOT give away the final answer
-3. Focus on the approach, method, or first steps
+3. This is hint ${previousHints.length + 1} of ${MAX_HINTS}, at the "${level.label}" level: ${level.instruction}
 4. Be encouraging and supportive
-5. If previous hints were given, provide a NEW, more specific hint
+5. If previous hints were given, build on them rather than repeating them
 ${cannotSeeFigure ? `6. IMPORTANT: This question references a figure/chart/table that you cannot see. Provide general guidance on the problem-solving approach and remind the student to refer to the figure in the original document for specific values or information.` : '6. If the question references a figure, chart, graph, or table, use that visual information to give relevant hints'}
 
 Rules:
 - Keep hints concise (1-3 sentences)
-- Suggest what concept or formula to consider
-- Point out what to look for or identify first
-- Never reveal the complete solution${previousHintsContext}`
-      }
-    ];
-
-    // Only use multimodal for non-PDF image documents
-    if (hasFigure && documentUrl && !isPdf) {
-      console.log("Using multimodal hint generation with image document:", documentUrl);
-      messages.push({
-        role: "user",
-        content: [
-          {
-            type: "text",
-            text: `Question: ${questionText}
-
-The question may reference a figure, chart, or table from the document. Please look at the attached image to understand the visual context when providing your hint.
+- Give exactly what this level asks for, no more
+- Never reveal the complete solution
+- ${LATEX_RULE} (escape each backslash inside the JSON string)${previousHintsContext}
+
+Respond in this exact JSON format:
+{
+  "hint": "Your hint here"
+}`
+    }
+  ];
+
+  // Send the exact figure(s) the question refers to
+  if (figureContext.imageUrls.length > 0) {
+    console.log(`Using multimodal hint generation with ${figureContext.imageUrls.length} figure(s)`);
+    messages.push({
+      role: "user",
+      content: [
+        {
+          type: "text",
+          text: `Question: ${fullQuestionText}
+
+The attached image(s) show the figure, chart, table or diagram this question refers to. Please use them to understand the visual context when providing your hint.
 
 Please provide a helpful hint (without giving the answer) to help me approach this problem.`
-          },
-          {
-            type: "image_url",
-            image_url: {
-              url: documentUrl
-            }
-          }
-        ]
-      });
-    } else {
-      console.log(cannotSeeFigure 
-        ? "Using text-only hints (PDF with figures - cannot see visuals)" 
-        : "Using text-only hints");
-      messages.push({
-        role: "user",
-        content: `Question: ${questionText}
-${cannotSeeFigure ? "\nNote: This question references a figure/chart/table from a PDF document that I cannot see. Please provide general guidance on approaching this type of problem and remind me to check the original document for specific visual information." : ""}
+        },
+        ...figureContext.imageUrls.map((url) => ({
+          type: "image_url",
+          image_url: { url },
+        })),
+      ]
+    });
+  } else {
+    console.log(cannotSeeFigure 
+      ? "Using text-only hints (figure not available - cannot see visuals)" 
+      : "Using text-only hints");
+    messages.push({
+      role: "user",
+      content: `Question: ${fullQuestionText}
+${cannotSeeFigure ? "\nNote: This question references a figure/chart/table from the document that you cannot see. Please provide general guidance on approaching this type of problem and remind me to check the original document for specific visual information." : ""}
 
 Please provide a helpful hint (without giving the answer) to help me approach this problem.`
-      });
+    });
+  }
+
+  // Use LLM to generate a hint; rate limit and out-of-credit errors, and replies
+  // that could not be repaired, go straight back to the client
+  const { hint } = await completeJson(ai, messages, hintSchema, onReply);
+  console.log(`Hint generated (${level.level}):`, hint);
+
+  // Saved before it is returned, so answers submitted after it always pay for it
+  await saveHint(supabase, userId, questionId, previousHints.length + 1, level.level, hint);
+
+  return {
+    success: true,
+    hint,
+    level: level.level,
+  };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { questionId, documentUrl, stream = false } = await req.json();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requestUser(supabase, req);
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to get hints" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    // Use LLM to generate a hint
-    const hintResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages,
-      }),
-    });
+    // Hints are written for the question as stored, whatever text the client shows,
+    // and only for questions the student can see
+    const question = await loadQuestion(supabase, questionId);
+    if (!question || !(await canSeeQuestion(supabase, user.id, question))) {
+      return new Response(
+        JSON.stringify({ error: "Question not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
 
-    if (!hintResponse.ok) {
-      const errorText = await hintResponse.text();
-      console.error("Hint API error:", hintResponse.status, errorText);
-      
-      if (hintResponse.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (hintResponse.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add credits to continue." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      
-      throw new Error(`Hint API error: ${hintResponse.status}`);
+    const previousHints = await loadHints(supabase, user.id, questionId);
+    console.log(`Getting hint for question, previous hints count: ${previousHints.length}`);
+
+    // Each hint goes one level further; once every level is used there are none left
+    const level = nextHintLevel(previousHints.length);
+    if (!level) {
+      return new Response(
+        JSON.stringify({ error: `All ${MAX_HINTS} hints for this question have been used` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
     }
 
-    const hintData = await hintResponse.json();
-    const hint = hintData.choices?.[0]?.message?.content || "Try breaking down the problem into smaller steps.";
-    console.log("Hint generated:", hint);
+    const request: HintRequest = { userId: user.id, questionId, questionText: question.question_text, previousHints, documentUrl };
+
+    // Streamed: the hint text as "delta" events, then the same payload as a "done" event
+    if (stream) {
+      return sseResponse(corsHeaders, "get-hint", (send) => generateHint(supabase, request, level, fieldStreamer("hint", send)));
+    }
 
     return new Response(
-      JSON.stringify({
-        success: true,
-        hint: hint.trim(),
-      }),
+      JSON.stringify(await generateHint(supabase, request, level)),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
     console.error("Error in get-hint function:", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      { status: errorStatus(error), headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
 });
@@ -0,0 +1,104 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type JobStage = "uploaded" | "rasterizing" | "ocr" | "saving" | "completed" | "failed";
+
+export interface ProcessingJob {
+  id: string;
+  document_id: string;
+  file_url: string;
+  stage: JobStage;
+  attempts: number;
+  max_attempts: number;
+}
+
+export interface JobProgress {
+  stage: JobStage;
+  current_page?: number | null;
+  total_pages?: number | null;
+}
+
+// First retry after 30s, then 60s, 120s...
+const RETRY_BASE_DELAY_MS = 30_000;
+
+/**
+ * Locks the next runnable job (or the given one) for this worker.
+ */
+export async function claimJob(supabase: SupabaseClient, jobId?: string): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase.rpc("claim_processing_job", { p_job_id: jobId ?? null });
+
+  if (error) {
+    console.error("Error claiming job:", error);
+    throw error;
+  }
+
+  return (data as ProcessingJob[] | null)?.[0] ?? null;
+}
+
+export async function updateJobProgress(supabase: SupabaseClient, jobId: string, progress: JobProgress) {
+  const { error } = await supabase
+    .from("processing_jobs")
+    .update({ ...progress, updated_at: new Date().toISOString() })
+    .eq("id", jobId);
+
+  if (error) {
+    // Progress is cosmetic; never fail the job over it
+    console.error("Error updating job progress:", error);
+  }
+}
+
+export async function completeJob(supabase: SupabaseClient, jobId: string, result: Record<string, unknown>) {
+  const { error } = await supabase
+    .from("processing_jobs")
+    .update({
+      stage: "completed",
+      result,
+      last_error: null,
+      locked_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+
+  if (error) {
+    console.error("Error completing job:", error);
+    throw error;
+  }
+}
+
+/**
+ * Schedules a retry with exponential backoff, or marks the job and its document
+ * as failed once the attempts are used up.
+ */
+export async function recordJobFailure(supabase: SupabaseClient, job: ProcessingJob, failure: unknown) {
+  const message = failure instanceof Error ? failure.message : "Unknown error";
+  const willRetry = job.attempts < job.max_attempts;
+  const now = new Date();
+
+  const { error } = await supabase
+    .from("processing_jobs")
+    .update(willRetry
+      ? {
+          last_error: message,
+          locked_at: null,
+          run_after: new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)).toISOString(),
+          updated_at: now.toISOString(),
+        }
+      : {
+          stage: "failed",
+          last_error: message,
+          locked_at: null,
+          updated_at: now.toISOString(),
+        })
+    .eq("id", job.id);
+
+  if (error) {
+    console.error("Error recording job failure:", error);
+  }
+
+  if (!willRetry) {
+    await supabase.from("documents").update({ status: "failed" }).eq("id", job.document_id);
+  }
+
+  console.log(willRetry
+    ? `Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), will retry: ${message}`
+    : `Job ${job.id} failed permanently: ${message}`);
+}
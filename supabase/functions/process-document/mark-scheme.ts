@@ -0,0 +1,140 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.25.76";
+import type { AiClient } from "../_shared/ai.ts";
+import { parseRubric } from "../_shared/rubric.ts";
+import type { PageImage } from "./pages.ts";
+import { runPageOcr } from "./ocr.ts";
+
+export interface MarkSchemeAnswer {
+  number: string;
+  answer: string;
+  notes?: string | null;
+  rubric?: unknown;
+}
+
+// Models sometimes return numbers as numbers ("number": 3)
+const looseString = z.union([z.string(), z.number()]).transform(String);
+
+const markSchemePageSchema: z.ZodType<MarkSchemeAnswer[], z.ZodTypeDef, unknown> = z.array(
+  z.object({
+    number: looseString.pipe(z.string().trim().min(1)),
+    answer: looseString,
+    notes: z.string().nullable().optional(),
+    // Checked line by line by parseRubric when the answer is saved
+    rubric: z.unknown().optional(),
+  })
+);
+
+const MARK_SCHEME_SYSTEM_PROMPT = `You are an expert OCR system specialized in reading mark schemes and answer keys for math exam papers.
+
+Your task: Extract the expected final answer and the marks breakdown for EVERY question and sub-question on the provided page.
+
+Return a JSON array with this exact format:
+[
+  {"number": "1a", "answer": "$x = 3$", "notes": "Accept $3$ on its own", "rubric": [
+    {"type": "method", "marks": 1, "description": "Collects $x$ terms on one side"},
+    {"type": "accuracy", "marks": 1, "description": "$x = 3$"}
+  ]},
+  {"number": "1b", "answer": "$2x^{2} + 5x - 3$", "notes": null, "rubric": null}
+]
+
+RULES:
+- Use the EXACT question numbering from the mark scheme (e.g. "1", "1a", "1(a)", "2(ii)", "3(b)(i)")
+- "answer" is the final answer a student must reach, not the method marks
+- Write mathematics as LaTeX between $ signs, the same notation as the question paper: $x^{2}$ for powers, $\\frac{3}{4}$ for fractions, $\\sqrt{x}$ for square roots, $\\leq$ and $\\geq$ in inequalities
+- Write coordinates and vectors as $(3, -2)$ and sets as $\\{1, 2, 3\\}$
+- Escape every backslash in the JSON ("\\\\frac" in the JSON string for \\frac)
+- Preserve negative signs and exponents EXACTLY
+- Put accepted alternatives, tolerances ("accept 12.3 to 12.4") and follow-through rules in "notes"; use null when there are none
+- "rubric" lists the marks for the question in order: M marks are "method", A and B marks are "accuracy". "marks" is how many marks the line is worth (M2 is 2). Use null when the mark scheme gives no breakdown
+- Skip rows that only give method marks with no final answer; their marks belong in the rubric of the question they are for
+
+ONLY return valid JSON, no other text or markdown.`;
+
+/**
+ * Reads the expected answer for each question number from a mark scheme, page by page.
+ */
+export async function extractMarkScheme(
+  pages: PageImage[],
+  ai: AiClient,
+  onPage: (pageNumber: number) => Promise<void>
+): Promise<MarkSchemeAnswer[]> {
+  const answers: MarkSchemeAnswer[] = [];
+
+  for (const page of pages) {
+    await onPage(page.pageNumber);
+    const data = await runPageOcr(
+      page,
+      MARK_SCHEME_SYSTEM_PROMPT,
+      `Extract the expected answer for every question on this mark scheme page (page ${page.pageNumber} of ${pages.length}). Return ONLY a JSON array.`,
+      markSchemePageSchema,
+      ai
+    );
+
+    // Rows with only method marks come back without a final answer
+    const pageAnswers = data.filter((a) => a.answer.trim());
+    answers.push(...pageAnswers);
+    console.log(`Mark scheme page ${page.pageNumber}/${pages.length}: extracted ${pageAnswers.length} answers`);
+  }
+
+  return answers;
+}
+
+/**
+ * "1(a)(i)", "1 a i" and "1ai" all refer to the same part.
+ */
+export function normalizeQuestionNumber(number: string): string {
+  return number.toLowerCase().replace(/[\s().[\]]/g, "");
+}
+
+/**
+ * Stores each extracted answer on the paper's question with the same number.
+ */
+export async function applyMarkScheme(
+  supabase: SupabaseClient,
+  paperId: string,
+  answers: MarkSchemeAnswer[]
+): Promise<{ matched: number; unmatched: string[] }> {
+  const { data: questions, error } = await supabase
+    .from("questions")
+    .select("id, question_number")
+    .eq("document_id", paperId);
+
+  if (error) {
+    console.error("Error loading paper questions:", error);
+    throw error;
+  }
+
+  const questionIdByNumber = new Map(
+    (questions ?? []).map((q) => [normalizeQuestionNumber(q.question_number), q.id])
+  );
+
+  let matched = 0;
+  const unmatched: string[] = [];
+
+  for (const answer of answers) {
+    const questionId = questionIdByNumber.get(normalizeQuestionNumber(answer.number));
+    if (!questionId) {
+      unmatched.push(answer.number);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("questions")
+      .update({
+        reference_answer: answer.answer,
+        mark_scheme_notes: answer.notes ?? null,
+        rubric: parseRubric(answer.rubric),
+      })
+      .eq("id", questionId);
+
+    if (updateError) {
+      console.error(`Error saving reference answer for ${answer.number}:`, updateError);
+      throw updateError;
+    }
+    matched++;
+  }
+
+  console.log(`Matched ${matched} mark scheme answers, ${unmatched.length} unmatched`);
+  return { matched, unmatched };
+}
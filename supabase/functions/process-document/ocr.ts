@@ -0,0 +1,41 @@
+import type { z } from "https://esm.sh/zod@3.25.76";
+import { completeJson, type AiClient } from "../_shared/ai.ts";
+import { bytesToBase64, type PageImage } from "./pages.ts";
+
+/**
+ * Sends one page image to the vision model and checks its JSON reply against
+ * `schema`, asking the model to repair a bad reply. Provider errors (rate limits,
+ * credits) and replies that could not be repaired are thrown so the job is
+ * retried later.
+ */
+export async function runPageOcr<T>(
+  page: PageImage,
+  systemPrompt: string,
+  instruction: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  ai: AiClient
+): Promise<T> {
+  const data = await completeJson(ai, [
+    {
+      role: "system",
+      content: systemPrompt,
+    },
+    {
+      role: "user",
+      content: [
+        {
+          type: "text",
+          text: instruction
+        },
+        {
+          type: "image_url",
+          image_url: {
+            url: `data:${page.mimeType};base64,${bytesToBase64(page.bytes)}`
+          }
+        }
+      ]
+    }
+  ], schema);
+  console.log(`OCR response for page ${page.pageNumber}:`, JSON.stringify(data));
+  return data;
+}
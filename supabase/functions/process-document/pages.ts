@@ -0,0 +1,84 @@
+import * as mupdf from "npm:mupdf@1.28.1";
+
+export interface PageImage {
+  pageNumber: number;
+  mimeType: string;
+  bytes: Uint8Array;
+}
+
+// Render scale for PDF pages (72dpi * 2 = 144dpi). High enough for small
+// exponents and minus signs to survive OCR without blowing up payload size.
+const PDF_RENDER_SCALE = 2;
+
+/**
+ * Splits an uploaded document into one image per page.
+ * PDFs are rasterized page by page; images are returned as a single page.
+ */
+export function splitIntoPages(bytes: Uint8Array, mimeType: string): PageImage[] {
+  if (mimeType !== "application/pdf") {
+    return [{ pageNumber: 1, mimeType, bytes }];
+  }
+
+  const doc = mupdf.Document.openDocument(bytes, "application/pdf");
+  const pageCount = doc.countPages();
+  const pages: PageImage[] = [];
+
+  for (let i = 0; i < pageCount; i++) {
+    const page = doc.loadPage(i);
+    const pixmap = page.toPixmap(
+      mupdf.Matrix.scale(PDF_RENDER_SCALE, PDF_RENDER_SCALE),
+      mupdf.ColorSpace.DeviceRGB,
+      false,
+      true
+    );
+    pages.push({ pageNumber: i + 1, mimeType: "image/png", bytes: pixmap.asPNG() });
+  }
+
+  return pages;
+}
+
+/**
+ * Gemini-style bounding box: [ymin, xmin, ymax, xmax], normalized to 0-1000.
+ */
+export type BoundingBox = [number, number, number, number];
+
+// Margin added around each figure so axis labels and captions are not clipped
+const CROP_PADDING = 0.01;
+
+/**
+ * Cuts a figure region out of a page image and returns it as a PNG,
+ * keeping the page's native resolution.
+ */
+export function cropRegion(page: PageImage, box: BoundingBox): Uint8Array {
+  const doc = mupdf.Document.openDocument(page.bytes, page.mimeType);
+  const imagePage = doc.loadPage(0);
+  const [x0, y0, x1, y1] = imagePage.getBounds();
+  const pageWidth = x1 - x0;
+  const pageHeight = y1 - y0;
+  const scale = new mupdf.Image(page.bytes).getWidth() / pageWidth;
+
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const [ymin, xmin, ymax, xmax] = box.map((v) => v / 1000);
+  const region: [number, number, number, number] = [
+    Math.floor((x0 + pageWidth * clamp(xmin - CROP_PADDING)) * scale),
+    Math.floor((y0 + pageHeight * clamp(ymin - CROP_PADDING)) * scale),
+    Math.ceil((x0 + pageWidth * clamp(xmax + CROP_PADDING)) * scale),
+    Math.ceil((y0 + pageHeight * clamp(ymax + CROP_PADDING)) * scale),
+  ];
+
+  const pixmap = new mupdf.Pixmap(mupdf.ColorSpace.DeviceRGB, region, false);
+  pixmap.clear(255);
+  const device = new mupdf.DrawDevice(mupdf.Matrix.scale(scale, scale), pixmap);
+  imagePage.run(device, mupdf.Matrix.identity);
+  device.close();
+
+  return pixmap.asPNG();
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.byteLength; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,668 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.25.76";
+import type { AiClient } from "../_shared/ai.ts";
+import { parseAnswerOptions, parseAnswerType, type AnswerOption, type AnswerType } from "../_shared/answer-types.ts";
+import { splitIntoPages, cropRegion, type BoundingBox, type PageImage } from "./pages.ts";
+import { runPageOcr } from "./ocr.ts";
+import { extractMarkScheme, applyMarkScheme } from "./mark-scheme.ts";
+import { matchQuestions, type ExistingQuestion, type QuestionChange } from "./reconcile.ts";
+import type { JobProgress, ProcessingJob } from "./jobs.ts";
+
+/**
+ * Runs one processing job end to end: rasterize, OCR page by page, save.
+ * Safe to re-run, after a failure or on purpose: questions already stored for the
+ * document are matched and updated in place, so student answers stay attached.
+ * Returns the summary stored on the job.
+ */
+export async function processDocument(
+  supabase: SupabaseClient,
+  job: ProcessingJob,
+  ai: AiClient,
+  reportProgress: (progress: JobProgress) => Promise<void>
+): Promise<Record<string, unknown>> {
+  const documentId = job.document_id;
+  const fileUrl = job.file_url;
+
+  const { data: document, error: documentError } = await supabase
+    .from("documents")
+    .select("filename, paper_id, user_id")
+    .eq("id", documentId)
+    .single();
+
+  if (documentError) {
+    console.error("Error loading document:", documentError);
+    throw documentError;
+  }
+
+  const { filename, paper_id: paperId } = document;
+  console.log(`Processing document: ${filename}, ID: ${documentId}`);
+
+  // The worker runs with the service role, so a mark scheme pointed at someone
+  // else's paper must be stopped here before it overwrites their answers
+  if (paperId) {
+    const { data: paper, error: paperError } = await supabase
+      .from("documents")
+      .select("user_id, kind")
+      .eq("id", paperId)
+      .maybeSingle();
+
+    if (paperError) {
+      console.error("Error loading question paper:", paperError);
+      throw paperError;
+    }
+    if (!paper || paper.kind !== "question_paper" || paper.user_id !== document.user_id) {
+      throw new Error("A mark scheme can only be attached to your own question paper");
+    }
+  }
+
+  // Fetch the file content
+  console.log(`Fetching file from: ${fileUrl}`);
+  const fileResponse = await fetch(fileUrl);
+
+  if (!fileResponse.ok) {
+    throw new Error(`Failed to fetch file: ${fileResponse.statusText}`);
+  }
+
+  const fileBlob = await fileResponse.blob();
+  const fileBytes = new Uint8Array(await fileBlob.arrayBuffer());
+  const mimeType = filename?.toLowerCase().endsWith(".pdf") ? "application/pdf" : fileBlob.type;
+
+  console.log(`File fetched, size: ${fileBlob.size} bytes`);
+
+  // Split PDFs into pages so each page is OCR'd on its own
+  await reportProgress({ stage: "rasterizing", current_page: null, total_pages: null });
+  const pages = splitIntoPages(fileBytes, mimeType);
+  console.log(`Document has ${pages.length} page(s)`);
+
+  const reportPage = (pageNumber: number) =>
+    reportProgress({ stage: "ocr", current_page: pageNumber, total_pages: pages.length });
+
+  // A mark scheme fills in reference answers on an existing paper instead of creating questions
+  if (paperId) {
+    const answers = await extractMarkScheme(pages, ai, reportPage);
+    if (answers.length === 0) {
+      throw new Error("No answers were found in the mark scheme");
+    }
+
+    await reportProgress({ stage: "saving", current_page: null, total_pages: pages.length });
+    const { matched, unmatched } = await applyMarkScheme(supabase, paperId, answers);
+
+    const { error: markSchemeUpdateError } = await supabase
+      .from("documents")
+      .update({ status: "completed", file_url: fileUrl, page_count: pages.length })
+      .eq("id", documentId);
+
+    if (markSchemeUpdateError) {
+      console.error("Error updating document status:", markSchemeUpdateError);
+      throw markSchemeUpdateError;
+    }
+
+    return { answersCount: answers.length, matchedCount: matched, unmatched };
+  }
+
+  const questions: ExtractedQuestion[] = [];
+  // Latest question id seen for each number, used to resolve parent references across pages
+  const questionIdsByNumber = new Map<string, string>();
+  const figures: SavedFigure[] = [];
+
+  for (const page of pages) {
+    await reportPage(page.pageNumber);
+
+    // Keep a rendered copy of every page so the UI and graders can refer back to it
+    if (mimeType === "application/pdf") {
+      const { error: pageUploadError } = await supabase.storage
+        .from("documents")
+        .upload(`${documentId}/pages/${page.pageNumber}.png`, page.bytes, {
+          contentType: page.mimeType,
+          upsert: true,
+        });
+
+      if (pageUploadError) {
+        console.error(`Error uploading page ${page.pageNumber}:`, pageUploadError);
+      }
+    }
+
+    const lastNumber = questions.length > 0 ? questions[questions.length - 1].number : null;
+    const ocrResult = await extractQuestionsFromPage(page, pages.length, lastNumber, ai);
+
+    // Crop each figure/table/diagram out of the page and keep it as its own image
+    const figureKeys = new Map<string, string>();
+    for (const figure of ocrResult.figures) {
+      const key = `p${page.pageNumber}-${figure.id}`;
+      const storagePath = `${documentId}/figures/${key}.png`;
+      try {
+        const { error: figureUploadError } = await supabase.storage
+          .from("documents")
+          .upload(storagePath, cropRegion(page, figure.box_2d), {
+            contentType: "image/png",
+            upsert: true,
+          });
+        if (figureUploadError) throw figureUploadError;
+      } catch (figureError) {
+        console.error(`Error saving figure ${key}:`, figureError);
+        continue;
+      }
+
+      const { data: figureUrl } = supabase.storage.from("documents").getPublicUrl(storagePath);
+      figures.push({
+        key,
+        pageNumber: page.pageNumber,
+        kind: figure.kind,
+        label: figure.label ?? null,
+        bbox: figure.box_2d,
+        imageUrl: figureUrl.publicUrl,
+      });
+      figureKeys.set(figure.id, key);
+    }
+
+    for (const q of ocrResult.questions) {
+      const figureRefs = (q.figures ?? [])
+        .map((id) => figureKeys.get(id))
+        .filter((key): key is string => !!key);
+
+      const previous = questions[questions.length - 1];
+      // A question that runs over a page break comes back with the same number on the next page
+      if (previous && previous.number === q.number) {
+        previous.text = `${previous.text}\n${q.text}`;
+        previous.figureKeys.push(...figureRefs);
+        previous.marks = previous.marks ?? parseMarks(q.marks);
+        previous.precision = previous.precision ?? parsePrecision(q.precision);
+        previous.unit = previous.unit ?? (q.unit || null);
+        previous.answerType = previous.answerType ?? parseAnswerType(q.answer_type);
+        previous.options = previous.options ?? parseAnswerOptions(q.options);
+        previous.confidence = minConfidence(previous.confidence, parseConfidence(q.confidence));
+        previous.uncertain = [previous.uncertain, q.uncertain].filter(Boolean).join("; ") || null;
+        continue;
+      }
+      const id = crypto.randomUUID();
+      questions.push({
+        id,
+        parentId: q.parent ? questionIdsByNumber.get(q.parent) ?? null : null,
+        number: q.number,
+        text: q.text,
+        marks: parseMarks(q.marks),
+        precision: parsePrecision(q.precision),
+        unit: q.unit || null,
+        answerType: parseAnswerType(q.answer_type),
+        options: parseAnswerOptions(q.options),
+        confidence: parseConfidence(q.confidence),
+        uncertain: q.uncertain || null,
+        pageNumber: page.pageNumber,
+        figureKeys: figureRefs,
+      });
+      questionIdsByNumber.set(q.number, id);
+    }
+
+    console.log(`Page ${page.pageNumber}/${pages.length}: extracted ${ocrResult.questions.length} questions`);
+  }
+
+  console.log(`Extracted ${questions.length} questions`);
+
+  // Nothing was read: fail the attempt so it is retried, rather than finishing
+  // with an empty document (or deleting the questions a re-run already had)
+  if (questions.length === 0) {
+    throw new Error("No questions were found in the document");
+  }
+
+  await reportProgress({ stage: "saving", current_page: null, total_pages: pages.length });
+
+  // Figures are cropped again on every run and replace the previous set
+  await clearFigures(supabase, documentId);
+
+  const { changes, reprocessed } = await saveQuestions(supabase, documentId, questions);
+
+  if (figures.length > 0) {
+    await saveFigureLinks(supabase, documentId, figures, questions);
+  }
+
+  // Paper total: only leaf parts carry marks, stems would double count
+  const parentIds = new Set(questions.map((q) => q.parentId).filter(Boolean));
+  const markedQuestions = questions.filter((q) => !parentIds.has(q.id) && q.marks !== null);
+  const totalMarks = markedQuestions.length > 0
+    ? markedQuestions.reduce((sum, q) => sum + (q.marks ?? 0), 0)
+    : null;
+
+  // Questions stay hidden from students until the uploader has reviewed them
+  const { error: updateError } = await supabase
+    .from("documents")
+    .update({ status: "needs_review", file_url: fileUrl, page_count: pages.length, total_marks: totalMarks })
+    .eq("id", documentId);
+
+  if (updateError) {
+    console.error("Error updating document status:", updateError);
+    throw updateError;
+  }
+
+  console.log("Document processing completed successfully");
+
+  return {
+    questionsCount: questions.length,
+    lowConfidenceCount: questions.filter((q) => q.confidence !== null && q.confidence < REVIEW_CONFIDENCE_THRESHOLD).length,
+    figuresCount: figures.length,
+    totalMarks,
+    reprocessed,
+    changes,
+  };
+}
+
+// Matches the threshold the review screen highlights
+const REVIEW_CONFIDENCE_THRESHOLD = 0.9;
+
+interface OcrQuestion {
+  number: string;
+  parent?: string | null;
+  text: string;
+  marks?: unknown;
+  precision?: unknown;
+  unit?: string | null;
+  answer_type?: string | null;
+  options?: unknown;
+  confidence?: unknown;
+  uncertain?: string | null;
+  figures?: string[];
+}
+
+interface AnswerPrecision {
+  type: "sig_figs" | "decimal_places";
+  digits: number;
+}
+
+interface OcrFigure {
+  id: string;
+  kind: "figure" | "table" | "diagram" | "chart" | "graph";
+  label?: string | null;
+  box_2d: BoundingBox;
+}
+
+interface OcrPage {
+  questions: OcrQuestion[];
+  figures: OcrFigure[];
+}
+
+// Models sometimes return numbers as numbers ("number": 3)
+const looseString = z.union([z.string(), z.number()]).transform(String);
+
+// The reply format OCR_SYSTEM_PROMPT asks for. Marks, confidence, precision and
+// options are read leniently by their own parsers, so they are not checked here.
+const ocrPageSchema: z.ZodType<OcrPage, z.ZodTypeDef, unknown> = z.object({
+  questions: z.array(
+    z.object({
+      number: looseString.pipe(z.string().trim().min(1)),
+      parent: looseString.nullable().optional(),
+      text: z.string().trim().min(1),
+      marks: z.unknown().optional(),
+      precision: z.unknown().optional(),
+      unit: z.string().nullable().optional(),
+      answer_type: z.string().nullable().optional(),
+      options: z.unknown().optional(),
+      confidence: z.unknown().optional(),
+      uncertain: z.string().nullable().optional(),
+      figures: z.array(looseString).optional(),
+    })
+  ),
+  figures: z
+    .array(
+      z.object({
+        id: looseString,
+        kind: z.enum(["figure", "table", "diagram", "chart", "graph"]),
+        label: z.string().nullable().optional(),
+        box_2d: z.tuple([z.number(), z.number(), z.number(), z.number()]),
+      })
+    )
+    .default([]),
+});
+
+interface ExtractedQuestion {
+  id: string;
+  parentId: string | null;
+  number: string;
+  text: string;
+  marks: number | null;
+  precision: AnswerPrecision | null;
+  unit: string | null;
+  answerType: AnswerType | null;
+  options: AnswerOption[] | null;
+  confidence: number | null;
+  uncertain: string | null;
+  pageNumber: number;
+  figureKeys: string[];
+}
+
+interface SavedFigure {
+  key: string;
+  pageNumber: number;
+  kind: string;
+  label: string | null;
+  bbox: BoundingBox;
+  imageUrl: string;
+}
+
+const OCR_SYSTEM_PROMPT = `You are an expert OCR system specialized in extracting math questions from exam papers and worksheets.
+
+Your task: Extract ALL math questions from the provided page image with EXTREME precision.
+
+Return a JSON object with this exact format:
+{
+  "questions": [
+    {"number": "1", "parent": null, "text": "Shared context for question 1 (the stem)", "marks": null, "precision": null, "unit": null, "answer_type": null, "options": null, "figures": ["F1"], "confidence": 0.98, "uncertain": null},
+    {"number": "1a", "parent": "1", "text": "Full question text here", "marks": 2, "precision": null, "unit": null, "answer_type": "expression", "options": null, "figures": [], "confidence": 0.95, "uncertain": null},
+    {"number": "1a(i)", "parent": "1a", "text": "Sub-part of 1a...", "marks": 1, "precision": null, "unit": null, "answer_type": "multiple_choice", "options": [{"label": "A", "text": "x = 2"}, {"label": "B", "text": "x = -3"}], "figures": [], "confidence": 0.6, "uncertain": "Exponent could be -3 or -5"},
+    {"number": "2", "parent": null, "text": "Question 2...", "marks": 3, "precision": {"type": "sig_figs", "digits": 3}, "unit": "cm^2", "answer_type": "numeric", "options": null, "figures": ["F1", "F2"], "confidence": 0.9, "uncertain": null}
+  ],
+  "figures": [
+    {"id": "F1", "kind": "table", "label": "Table 1", "box_2d": [ymin, xmin, ymax, xmax]},
+    {"id": "F2", "kind": "diagram", "label": null, "box_2d": [ymin, xmin, ymax, xmax]}
+  ]
+}
+
+CRITICAL RULES FOR ACCURACY:
+
+1. QUESTION NUMBERING:
+   - Use the EXACT numbering from the document (e.g., "1", "1a", "1b", "2i", "2ii", "3(i)", "3(ii)")
+   - Each sub-question (a, b, c OR i, ii, iii OR (i), (ii), (iii)) MUST be a SEPARATE entry
+   - DO NOT combine sub-questions into one entry
+   - DO NOT include the question number inside the question text
+   - "parent" is the number of the question a part belongs to ("1a" -> "1", "1a(i)" -> "1a"), or null for top-level questions
+
+2. SHARED STEMS:
+   - When a question gives shared context before its parts, return that context ONCE as its own entry (e.g. number "1") and point the parts at it with "parent"
+   - DO NOT copy the shared context into the parts, and DO NOT drop it
+   - Always return the stem entry before its parts; if a part's stem is on an earlier page, still set "parent" to its number
+
+3. MATHEMATICAL NOTATION - BE EXTREMELY CAREFUL:
+   - Write all mathematics in "text" and in "options" as LaTeX between $ signs, e.g. "Simplify $\\frac{x^{-3}}{\\sqrt{2}}$"
+   - Powers: $x^{2}$, $10^{5}$, $y^{-3}$
+   - Fractions: $\\frac{3}{4}$, $\\frac{x}{y}$
+   - Square roots: $\\sqrt{x}$, $\\sqrt[3]{x}$
+   - Negative numbers: Preserve negative signs EXACTLY (e.g., -6, not 6)
+   - Inequalities: Use exact symbols ($\\leq$, $\\geq$, $<$, $>$)
+   - Vectors: Use column notation like $\\begin{pmatrix} x \\\\ y \\end{pmatrix}$
+   - Exponents: Double-check the exact value (10^5 is NOT the same as 10^7)
+   - Escape every backslash in the JSON ("\\\\frac" in the JSON string for \\frac)
+   - "unit" stays plain text with ^ for powers (e.g. "cm^2")
+
+4. TABLES, CHARTS, FIGURES, AND DIAGRAMS:
+   - If a question references a table, chart, graph, or diagram, include "[See figure in original document]" at the START of the question
+   - Describe the key data from tables in the question text (e.g., "The table shows: Row 1: Male, Europe: 8, Africa: 5...")
+   - For bar charts/graphs, describe the visible values
+   - List EVERY figure, table, chart, graph or diagram on the page in "figures" with a short id (F1, F2, ...)
+   - "kind" is one of: figure, table, diagram, chart, graph
+   - "box_2d" is the region as [ymin, xmin, ymax, xmax] normalized to 0-1000, covering the whole figure including axes, labels and captions
+   - Each question's "figures" lists the ids of every figure it needs (a shared table may belong to several questions)
+
+5. TEXT ACCURACY:
+   - Copy text EXACTLY as written - do not paraphrase
+   - Preserve all given information (measurements, values, names)
+   - Include any context provided before the actual question (on the stem entry when several parts share it)
+   - If the page starts partway through a question from the previous page, return that text under the SAME number as the previous question
+
+6. COMMON ERRORS TO AVOID:
+   - Do NOT change negative numbers to positive
+   - Do NOT change exponent values
+   - Do NOT merge separate sub-questions
+   - Do NOT repeat a stem's shared context inside each part
+   - Do NOT include question numbers in the question text itself
+   - Do NOT skip questions with images/diagrams - describe what's needed instead
+   - Do NOT leave mark allocations like "[3 marks]" in the question text
+
+7. MARK ALLOCATIONS:
+   - If a mark allocation is printed next to a question or part (e.g. "[3 marks]", "[3]", "(2 marks)", "(2)"), put the number in "marks"
+   - Use null when no marks are printed
+   - Stems whose marks are printed on their parts get null; never count a part's marks on its stem as well
+
+8. ANSWER REQUIREMENTS:
+   - If a question or part says how to round its answer, put it in "precision": "to 3 significant figures" / "3 s.f." is {"type": "sig_figs", "digits": 3}, "to 2 decimal places" / "2 d.p." is {"type": "decimal_places", "digits": 2}, "to the nearest whole number" is {"type": "decimal_places", "digits": 0}
+   - If it asks for the answer in a unit ("in cm²", "give your answer in km/h"), put the unit in "unit" using ^ for powers (e.g. "cm^2", "m^3", "km/h")
+   - Use null for both when the question says nothing; keep the instruction in the question text as well
+
+9. ANSWER TYPE:
+   - "answer_type" is the kind of answer the question expects, one of: multiple_choice, numeric, expression, equation, inequality, coordinates, vector, set, true_false
+   - inequality also covers answers in interval notation; coordinates is a point (x, y); set is a list of elements in any order
+   - Use null for stems, proofs, explanations, sketches and anything else that needs a written answer
+   - For multiple_choice, list the choices in "options" with their printed labels ("A", "B", ...); otherwise "options" is null
+
+10. CONFIDENCE:
+   - "confidence" is how sure you are that the question text is an EXACT transcription, from 0 to 1
+   - Lower it for anything hard to read: faint or small exponents, possible minus signs, subscripts, handwritten or blurred text, symbols that could be misread
+   - When below 0.9, say what you are unsure about in "uncertain" (e.g. "Exponent could be 5 or 6"); otherwise null
+
+ONLY return valid JSON, no other text or markdown.`;
+
+async function extractQuestionsFromPage(
+  page: PageImage,
+  pageCount: number,
+  previousQuestionNumber: string | null,
+  ai: AiClient
+): Promise<OcrPage> {
+  const pageContext = pageCount > 1
+    ? ` This is page ${page.pageNumber} of ${pageCount}.${previousQuestionNumber ? ` The last question on the previous page was "${previousQuestionNumber}".` : ""}`
+    : "";
+
+  return runPageOcr(
+    page,
+    OCR_SYSTEM_PROMPT,
+    `Extract all math questions and figures from this page.${pageContext} Each sub-question (a/b/c or i/ii/iii) must be separate. Be EXTREMELY careful with negative signs, exponents, and inequality symbols. Return ONLY the JSON object.`,
+    ocrPageSchema,
+    ai
+  );
+}
+
+async function clearFigures(supabase: SupabaseClient, documentId: string) {
+  const { error: figuresError } = await supabase.from("figures").delete().eq("document_id", documentId);
+  if (figuresError) {
+    console.error("Error clearing previous figures:", figuresError);
+    throw figuresError;
+  }
+}
+
+/**
+ * Writes the extracted questions, reusing the rows of questions that were already
+ * stored for the document (matched by number and text). Matched rows keep their id,
+ * answers and mark scheme; existing questions that were not found again are deleted,
+ * or hidden for review when students have answered them. Rewrites the ids in
+ * `questions` to the ids that were saved.
+ */
+async function saveQuestions(
+  supabase: SupabaseClient,
+  documentId: string,
+  questions: ExtractedQuestion[]
+): Promise<{ changes: QuestionChange[]; reprocessed: boolean }> {
+  const { data: existingData, error: existingError } = await supabase
+    .from("questions")
+    .select("id, question_number, question_text, approved")
+    .eq("document_id", documentId);
+
+  if (existingError) {
+    console.error("Error loading existing questions:", existingError);
+    throw existingError;
+  }
+
+  const existing: (ExistingQuestion & { approved: boolean })[] = existingData ?? [];
+  const existingById = new Map(existing.map((q) => [q.id, q]));
+  const matches = matchQuestions(questions, existing);
+
+  const savedIds = new Map<string, string>();
+  matches.forEach((existingId, index) => savedIds.set(questions[index].id, existingId));
+  for (const q of questions) {
+    q.parentId = q.parentId ? savedIds.get(q.parentId) ?? q.parentId : null;
+    q.id = savedIds.get(q.id) ?? q.id;
+  }
+
+  const changes: QuestionChange[] = [];
+  // Ids are generated here so parts can point at their stem within the same upsert
+  const questionRows = questions.map((q, index) => {
+    const previous = existingById.get(q.id);
+    const unchanged = !!previous && previous.question_text === q.text && previous.question_number === q.number;
+
+    if (!previous) {
+      changes.push({ type: "added", questionId: q.id, number: q.number, text: q.text });
+    } else if (!unchanged) {
+      changes.push({
+        type: "updated",
+        questionId: q.id,
+        number: q.number,
+        previousNumber: previous.question_number,
+        text: q.text,
+        previousText: previous.question_text,
+      });
+    }
+
+    return {
+      id: q.id,
+      parent_id: q.parentId,
+      document_id: documentId,
+      question_number: q.number,
+      question_text: q.text,
+      marks: q.marks,
+      precision_type: q.precision?.type ?? null,
+      precision_digits: q.precision?.digits ?? null,
+      answer_unit: q.unit,
+      answer_type: q.answerType,
+      // Options only mean something for multiple choice
+      answer_options: q.answerType === "multiple_choice" ? q.options : null,
+      confidence: q.confidence,
+      review_notes: q.uncertain,
+      page_number: q.pageNumber,
+      sort_order: index + 1,
+      // Anything new or changed goes back through review
+      approved: unchanged ? previous.approved : false,
+    };
+  });
+
+  if (questionRows.length > 0) {
+    const { error: upsertError } = await supabase
+      .from("questions")
+      .upsert(questionRows, { onConflict: "id" });
+
+    if (upsertError) {
+      console.error("Error saving questions:", upsertError);
+      throw upsertError;
+    }
+  }
+
+  const savedIdSet = new Set(questions.map((q) => q.id));
+  const missing = existing.filter((q) => !savedIdSet.has(q.id));
+
+  if (missing.length > 0) {
+    const { data: answered, error: answeredError } = await supabase
+      .from("student_answers")
+      .select("question_id")
+      .in("question_id", missing.map((q) => q.id));
+
+    if (answeredError) {
+      console.error("Error checking answers on missing questions:", answeredError);
+      throw answeredError;
+    }
+
+    const answeredIds = new Set((answered ?? []).map((a) => a.question_id));
+    const keep = missing.filter((q) => answeredIds.has(q.id));
+    const remove = missing.filter((q) => !answeredIds.has(q.id));
+
+    // Detach kept questions first, so deleting a missing stem cannot cascade into them
+    for (const [offset, q] of keep.entries()) {
+      const { error: keepError } = await supabase
+        .from("questions")
+        .update({
+          parent_id: null,
+          approved: false,
+          sort_order: questionRows.length + offset + 1,
+          review_notes: "Not found when the document was processed again. Kept because students have answered it.",
+        })
+        .eq("id", q.id);
+
+      if (keepError) {
+        console.error("Error hiding missing question:", keepError);
+        throw keepError;
+      }
+    }
+
+    if (remove.length > 0) {
+      const { error: removeError } = await supabase
+        .from("questions")
+        .delete()
+        .in("id", remove.map((q) => q.id));
+
+      if (removeError) {
+        console.error("Error removing missing questions:", removeError);
+        throw removeError;
+      }
+    }
+
+    for (const q of missing) {
+      changes.push({ type: "removed", questionId: q.id, number: q.question_number, previousText: q.question_text });
+    }
+  }
+
+  return { changes, reprocessed: existing.length > 0 };
+}
+
+function parseConfidence(confidence: unknown): number | null {
+  const value = typeof confidence === "string" ? parseFloat(confidence) : confidence;
+  return typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : null;
+}
+
+function minConfidence(a: number | null, b: number | null): number | null {
+  if (a === null) return b;
+  if (b === null) return a;
+  return Math.min(a, b);
+}
+
+function parseMarks(marks: unknown): number | null {
+  const value = typeof marks === "string" ? parseInt(marks, 10) : marks;
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+}
+
+function parsePrecision(precision: unknown): AnswerPrecision | null {
+  if (!precision || typeof precision !== "object") return null;
+  const { type, digits } = precision as { type?: unknown; digits?: unknown };
+  const value = typeof digits === "string" ? parseInt(digits, 10) : digits;
+  if ((type !== "sig_figs" && type !== "decimal_places") || typeof value !== "number" || !Number.isInteger(value)) {
+    return null;
+  }
+  // Significant figures start at 1; "nearest whole number" is 0 decimal places
+  return value >= (type === "sig_figs" ? 1 : 0) ? { type, digits: value } : null;
+}
+
+async function saveFigureLinks(
+  supabase: SupabaseClient,
+  documentId: string,
+  figures: SavedFigure[],
+  questions: ExtractedQuestion[]
+) {
+  const { data: insertedFigures, error: figureError } = await supabase
+    .from("figures")
+    .insert(figures.map((f) => ({
+      document_id: documentId,
+      page_number: f.pageNumber,
+      kind: f.kind,
+      label: f.label,
+      bbox: f.bbox,
+      image_url: f.imageUrl,
+    })))
+    .select("id, image_url");
+
+  if (figureError) {
+    console.error("Error inserting figures:", figureError);
+    throw figureError;
+  }
+
+  const figureIdByUrl = new Map(insertedFigures.map((f) => [f.image_url, f.id]));
+  const figureIdByKey = new Map(figures.map((f) => [f.key, figureIdByUrl.get(f.imageUrl)]));
+
+  const links = questions.flatMap((q) =>
+    [...new Set(q.figureKeys)].map((key) => ({
+      question_id: q.id,
+      figure_id: figureIdByKey.get(key),
+    }))
+  ).filter((link) => link.question_id && link.figure_id);
+
+  if (links.length > 0) {
+    const { error: linkError } = await supabase.from("question_figures").insert(links);
+    if (linkError) {
+      console.error("Error linking figures to questions:", linkError);
+      throw linkError;
+    }
+  }
+
+  console.log(`Saved ${figures.length} figures, ${links.length} question links`);
+}
@@ -0,0 +1,87 @@
+import { normalizeQuestionNumber } from "./mark-scheme.ts";
+
+export interface ExistingQuestion {
+  id: string;
+  question_number: string;
+  question_text: string;
+}
+
+export interface QuestionChange {
+  type: "added" | "updated" | "removed";
+  questionId: string;
+  number: string;
+  previousNumber?: string;
+  text?: string;
+  previousText?: string;
+}
+
+// A candidate pair is kept when the numbers agree and the text is at least
+// loosely similar, or when the text alone is clearly the same question
+// (the OCR renumbered it, e.g. "2(a)" became "2a(i)").
+const SAME_NUMBER_MIN_SIMILARITY = 0.3;
+const TEXT_ONLY_MIN_SIMILARITY = 0.8;
+
+/**
+ * Pairs freshly extracted questions with the questions already stored for the
+ * document, so a re-run can update rows in place and keep their answers.
+ * Returns extracted index -> existing question id; each existing question is used once.
+ */
+export function matchQuestions(
+  extracted: { number: string; text: string }[],
+  existing: ExistingQuestion[]
+): Map<number, string> {
+  const candidates: { index: number; existingId: string; score: number }[] = [];
+
+  extracted.forEach((question, index) => {
+    const number = normalizeQuestionNumber(question.number);
+    for (const current of existing) {
+      const sameNumber = normalizeQuestionNumber(current.question_number) === number;
+      const similarity = textSimilarity(question.text, current.question_text);
+      if (
+        (sameNumber && similarity >= SAME_NUMBER_MIN_SIMILARITY) ||
+        similarity >= TEXT_ONLY_MIN_SIMILARITY
+      ) {
+        candidates.push({ index, existingId: current.id, score: similarity + (sameNumber ? 1 : 0) });
+      }
+    }
+  });
+
+  // Best pairs first, so a renumbered question cannot steal a better match
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<number, string>();
+  const used = new Set<string>();
+  for (const candidate of candidates) {
+    if (matches.has(candidate.index) || used.has(candidate.existingId)) continue;
+    matches.set(candidate.index, candidate.existingId);
+    used.add(candidate.existingId);
+  }
+
+  return matches;
+}
+
+/**
+ * Dice coefficient over character bigrams, ignoring case and whitespace.
+ * 1 for identical text, close to 1 when only a sign or exponent changed.
+ */
+export function textSimilarity(a: string, b: string): number {
+  const bigrams = (text: string) => {
+    const normalized = text.toLowerCase().replace(/\s+/g, "");
+    const counts = new Map<string, number>();
+    for (let i = 0; i < normalized.length - 1; i++) {
+      const bigram = normalized.slice(i, i + 2);
+      counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+    }
+    return { counts, total: Math.max(0, normalized.length - 1) };
+  };
+
+  const first = bigrams(a);
+  const second = bigrams(b);
+  if (first.total === 0 && second.total === 0) return a.trim() === b.trim() ? 1 : 0;
+
+  let overlap = 0;
+  for (const [bigram, count] of first.counts) {
+    overlap += Math.min(count, second.counts.get(bigram) ?? 0);
+  }
+  return (2 * overlap) / (first.total + second.total);
+}
@@ -0,0 +1,93 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface TutorMessage {
+  id: string;
+  role: "student" | "tutor";
+  content: string;
+  created_at: string;
+}
+
+export interface TutorConversation {
+  id: string;
+  userId: string;
+  questionId: string;
+  messages: TutorMessage[];
+}
+
+// One of the student's submitted answers to the question, as the tutor sees it
+export interface Attempt {
+  answer: string;
+  steps: string[];
+  isCorrect: boolean | null;
+  feedback: string | null;
+}
+
+// The latest attempts are enough to see where the student is stuck
+const MAX_ATTEMPTS = 5;
+
+export async function loadConversation(supabase: SupabaseClient, conversationId: string): Promise<TutorConversation | null> {
+  const { data, error } = await supabase
+    .from("tutor_conversations")
+    .select("id, user_id, question_id, tutor_messages(id, role, content, created_at)")
+    .eq("id", conversationId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading conversation:", error);
+    throw error;
+  }
+  if (!data) return null;
+
+  const messages = [...(data.tutor_messages ?? [])].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  return { id: data.id, userId: data.user_id, questionId: data.question_id, messages: messages as TutorMessage[] };
+}
+
+/**
+ * The student's most recent graded attempts at the question, oldest first.
+ */
+export async function loadAttempts(supabase: SupabaseClient, userId: string, questionId: string): Promise<Attempt[]> {
+  const { data, error } = await supabase
+    .from("student_answers")
+    .select("student_answer, is_correct, feedback, answer_steps(step_number, content)")
+    .eq("user_id", userId)
+    .eq("question_id", questionId)
+    .eq("grading_status", "graded")
+    .order("submitted_at", { ascending: false })
+    .limit(MAX_ATTEMPTS);
+
+  if (error) {
+    console.error("Error loading attempts:", error);
+    throw error;
+  }
+
+  return (data ?? []).reverse().map((row) => ({
+    answer: row.student_answer,
+    steps: [...(row.answer_steps ?? [])].sort((a, b) => a.step_number - b.step_number).map((step) => step.content),
+    isCorrect: row.is_correct,
+    feedback: row.feedback,
+  }));
+}
+
+export async function saveTutorReply(supabase: SupabaseClient, conversationId: string, content: string): Promise<TutorMessage> {
+  const { data, error } = await supabase
+    .from("tutor_messages")
+    .insert({ conversation_id: conversationId, role: "tutor", content })
+    .select("id, role, content, created_at")
+    .single();
+
+  if (error) {
+    console.error("Error saving tutor reply:", error);
+    throw error;
+  }
+
+  const { error: touchError } = await supabase
+    .from("tutor_conversations")
+    .update({ updated_at: new Date().toISOString() })
+    .eq("id", conversationId);
+
+  if (touchError) {
+    console.error("Error updating conversation:", touchError);
+  }
+
+  return data as TutorMessage;
+}
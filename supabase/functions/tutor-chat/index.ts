@@ -0,0 +1,147 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { z } from "https://esm.sh/zod@3.25.76";
+import { completeJson, createAiClient, errorStatus, type ChatMessage } from "../_shared/ai.ts";
+import { requestUser } from "../_shared/auth.ts";
+import { loadFigureContext } from "../_shared/figures.ts";
+import { LATEX_RULE } from "../_shared/latex.ts";
+import { canSeeQuestion, loadQuestion, loadStems, withStems } from "../_shared/questions.ts";
+import { loadAttempts, loadConversation, saveTutorReply, type Attempt } from "./conversation.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const replySchema = z.object({ reply: z.string().trim().min(1) });
+
+// "1. Answer: x = 3 (marked incorrect)\n   Working: ...\n   Feedback: ..."
+function describeAttempts(attempts: Attempt[]): string {
+  if (attempts.length === 0) return "The student has not submitted an answer yet.";
+
+  return attempts
+    .map((attempt, index) => {
+      const verdict = attempt.isCorrect === null ? "not graded" : attempt.isCorrect ? "marked correct" : "marked incorrect";
+      const lines = [`${index + 1}. Answer: ${attempt.answer || "(none typed)"} (${verdict})`];
+      if (attempt.steps.length > 0) {
+        lines.push(`   Working: ${attempt.steps.map((step, i) => `(${i + 1}) ${step}`).join("; ")}`);
+      }
+      if (attempt.feedback) lines.push(`   Feedback given: ${attempt.feedback}`);
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // The student's message is already saved in tutor_messages; this replies to it
+    const { conversationId, documentUrl } = await req.json();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const user = await requestUser(supabase, req);
+    if (!user) {
+      return jsonResponse({ error: "Sign in to talk to the tutor" }, 401);
+    }
+
+    // Someone else's conversation is treated as missing, so ids cannot be probed
+    const conversation = await loadConversation(supabase, conversationId);
+    if (!conversation || conversation.userId !== user.id) {
+      return jsonResponse({ error: "Conversation not found" }, 404);
+    }
+    const question = await loadQuestion(supabase, conversation.questionId);
+    if (!question || !(await canSeeQuestion(supabase, user.id, question))) {
+      return jsonResponse({ error: "Question not found" }, 404);
+    }
+    const lastMessage = conversation.messages[conversation.messages.length - 1];
+    if (lastMessage?.role !== "student") {
+      return jsonResponse({ error: "There is no student message to reply to" }, 400);
+    }
+    console.log(`Tutoring on question ${conversation.questionId}, ${conversation.messages.length} message(s) so far`);
+
+    const ai = await createAiClient("tutor-chat");
+
+    // Parts of a multi-part question are discussed with their shared stem
+    const stems = await loadStems(supabase, conversation.questionId);
+    const fullQuestionText = withStems(stems, question.question_text);
+
+    // The tutor sees the same cropped figures as grading and hints
+    const figureContext = await loadFigureContext(
+      supabase,
+      [conversation.questionId, ...stems.map((stem) => stem.id)],
+      fullQuestionText,
+      documentUrl
+    );
+    const cannotSeeFigure = figureContext.missingFigure;
+
+    const attempts = await loadAttempts(supabase, conversation.userId, conversation.questionId);
+
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: `You are a patient Socratic math tutor helping a student with one question.
+
+How to tutor:
+1. Ask one guiding question at a time that helps the student take their next step themselves
+2. NEVER give the final answer or work through the whole solution, even if the student asks directly or says they have given up
+3. Build on what the student has already said and tried. If an attempt went wrong, help them find the mistake rather than correcting it for them
+4. When the student gets a step right, say so and ask what they would do next
+5. Stay on this question and gently steer other topics back to it
+6. Keep replies short (1-4 sentences) and encouraging
+${cannotSeeFigure ? "7. The question refers to a figure, chart or table you cannot see. Ask the student what it shows rather than guessing, and remind them to check the original document." : "7. If the question refers to a figure, chart, graph or table, it is attached to the student's first message"}
+
+Rules:
+- ${LATEX_RULE} (escape each backslash inside the JSON string)
+
+Question:
+${fullQuestionText}
+
+The student's attempts so far:
+${describeAttempts(attempts)}
+
+Respond in this exact JSON format:
+{
+  "reply": "Your next message to the student"
+}`,
+      },
+      ...conversation.messages.map((message, index): ChatMessage => {
+        if (message.role === "tutor") return { role: "assistant", content: message.content };
+        // Figures go with the first message so every turn can refer to them
+        if (index === 0 && figureContext.imageUrls.length > 0) {
+          return {
+            role: "user",
+            content: [
+              { type: "text", text: message.content },
+              ...figureContext.imageUrls.map((url) => ({ type: "image_url" as const, image_url: { url } })),
+            ],
+          };
+        }
+        return { role: "user", content: message.content };
+      }),
+    ];
+
+    // Rate limit and out-of-credit errors, and replies that could not be repaired,
+    // go straight back to the client; the student's message stays saved to retry
+    const { reply } = await completeJson(ai, messages, replySchema);
+    const saved = await saveTutorReply(supabase, conversation.id, reply);
+    console.log("Tutor replied:", reply);
+
+    return jsonResponse({ success: true, message: saved });
+  } catch (error) {
+    console.error("Error in tutor-chat function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, errorStatus(error));
+  }
+});
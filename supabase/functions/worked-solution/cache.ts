@@ -0,0 +1,54 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { WorkedSolution } from "./solution.ts";
+
+/**
+ * The question's checked solution, if one was written for this version of it.
+ */
+export async function loadSolution(
+  supabase: SupabaseClient,
+  questionId: string,
+  questionVersion: string
+): Promise<WorkedSolution | null> {
+  const { data, error } = await supabase
+    .from("worked_solutions")
+    .select("steps, final_answer")
+    .eq("question_id", questionId)
+    .eq("question_version", questionVersion)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading worked solution:", error);
+    return null;
+  }
+  if (!data) return null;
+
+  return { steps: data.steps as string[], finalAnswer: data.final_answer };
+}
+
+/**
+ * Stores the question's solution, replacing one written for an earlier version.
+ * A failure is logged and the solution is still returned to the student.
+ */
+export async function saveSolution(
+  supabase: SupabaseClient,
+  questionId: string,
+  questionVersion: string,
+  solution: WorkedSolution,
+  model: string
+) {
+  const { error } = await supabase.from("worked_solutions").upsert(
+    {
+      question_id: questionId,
+      question_version: questionVersion,
+      steps: solution.steps,
+      final_answer: solution.finalAnswer,
+      model,
+      created_at: new Date().toISOString(),
+    },
+    { onConflict: "question_id" }
+  );
+
+  if (error) {
+    console.error("Error caching worked solution:", error);
+  }
+}
@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createAiClient, errorStatus } from "../_shared/ai.ts";
+import { parseAnswerOptions, parseAnswerType } from "../_shared/answer-types.ts";
+import { requestUser } from "../_shared/auth.ts";
+import { loadFigureContext } from "../_shared/figures.ts";
+import { loadQuestion, loadStems, questionVersion, withStems, type QuestionRecord } from "../_shared/questions.ts";
+import { loadSolution, saveSolution } from "./cache.ts";
+import { SOLUTION_PROMPT_VERSION, writeSolution } from "./solution.ts";
+import { loadAttemptCount, loadSolutionSettings, solutionUnlocked } from "./unlock.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// "to 3 significant figures, in cm"
+function describeRequirements(question: QuestionRecord): string | null {
+  const parts: string[] = [];
+  if (question.precision_type && question.precision_digits !== null) {
+    const kind = question.precision_type === "sig_figs" ? "significant figures" : "decimal places";
+    parts.push(`to ${question.precision_digits} ${kind}`);
+  }
+  if (question.answer_unit) parts.push(`in ${question.answer_unit}`);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { questionId, documentUrl } = await req.json();
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // Unlocking depends on the caller's own attempts, so they come from the signed-in user
+    const user = await requestUser(supabase, req);
+    if (!user) {
+      return jsonResponse({ error: "Sign in to see worked solutions" }, 401);
+    }
+
+    const settings = await loadSolutionSettings(supabase, questionId);
+    const question = await loadQuestion(supabase, questionId);
+    if (!settings || !question) {
+      return jsonResponse({ error: "Question not found" }, 404);
+    }
+    if (!settings.enabled) {
+      return jsonResponse({ error: "Worked solutions are turned off for this paper" }, 403);
+    }
+    const attempts = await loadAttemptCount(supabase, user.id, questionId);
+    if (!solutionUnlocked(settings, attempts)) {
+      return jsonResponse(
+        { error: `The worked solution unlocks after ${settings.afterAttempts} wrong attempt${settings.afterAttempts !== 1 ? "s" : ""} or a correct answer` },
+        403
+      );
+    }
+
+    // Parts of a multi-part question are solved with their shared stem. The text
+    // comes from the paper, never the request, since the solution is shared by every student
+    const stems = await loadStems(supabase, questionId);
+    const fullQuestionText = withStems(stems, question.question_text);
+    const referenceAnswer = question.reference_answer;
+    const markSchemeNotes = question.mark_scheme_notes;
+    const requirements = describeRequirements(question);
+    const answerOptions = parseAnswerOptions(question.answer_options);
+
+    // Written once per version of the question; editing it or its mark scheme writes a new one
+    const version = await questionVersion({
+      promptVersion: SOLUTION_PROMPT_VERSION,
+      fullQuestionText,
+      referenceAnswer,
+      markSchemeNotes,
+      requirements,
+      answerType: parseAnswerType(question.answer_type),
+      answerOptions,
+    });
+    const cached = await loadSolution(supabase, questionId, version);
+    if (cached) {
+      console.log(`Reusing worked solution for question ${questionId}`);
+      return jsonResponse({ success: true, solution: cached, fromCache: true });
+    }
+
+    const figureContext = await loadFigureContext(
+      supabase,
+      [questionId, ...stems.map((stem) => stem.id)],
+      fullQuestionText,
+      documentUrl
+    );
+    // A solution worked from a figure nobody can see would be a guess
+    if (figureContext.missingFigure && !referenceAnswer) {
+      return jsonResponse({ error: "This question's figure could not be read, so there is no worked solution for it" }, 400);
+    }
+
+    const ai = await createAiClient("worked-solution");
+    const solution = await writeSolution(ai, {
+      fullQuestionText,
+      referenceAnswer,
+      markSchemeNotes,
+      requirements,
+      answerOptions,
+      figureContext,
+    });
+    if (!solution) {
+      return jsonResponse({ error: "We couldn't write a solution that checks out. Please try again later." }, 502);
+    }
+
+    await saveSolution(supabase, questionId, version, solution, ai.model);
+    console.log(`Worked solution written for question ${questionId} in ${solution.steps.length} steps`);
+
+    return jsonResponse({ success: true, solution, fromCache: false });
+  } catch (error) {
+    console.error("Error in worked-solution function:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, errorStatus(error));
+  }
+});
@@ -0,0 +1,147 @@
+import { z } from "https://esm.sh/zod@3.25.76";
+import { completeJson, type AiClient, type ChatMessage } from "../_shared/ai.ts";
+import type { AnswerOption } from "../_shared/answer-types.ts";
+import type { FigureContext } from "../_shared/figures.ts";
+import { LATEX_RULE } from "../_shared/latex.ts";
+
+export interface WorkedSolution {
+  // One line of working each, in order
+  steps: string[];
+  finalAnswer: string;
+}
+
+// Part of the cached solution's version; bump it whenever the prompts below change
+export const SOLUTION_PROMPT_VERSION = "2026-10-19.1";
+
+export interface SolutionInput {
+  fullQuestionText: string;
+  referenceAnswer: string | null;
+  markSchemeNotes: string | null;
+  // How the answer must be given, e.g. "to 3 significant figures, in cm"
+  requirements: string | null;
+  answerOptions: AnswerOption[] | null;
+  figureContext: FigureContext;
+}
+
+// A solution the check rejects is rewritten with the checker's objection this many times
+const REWRITE_ATTEMPTS = 1;
+
+const solutionSchema = z.object({
+  steps: z.array(z.string().trim().min(1)).min(1),
+  finalAnswer: z.string().trim().min(1),
+});
+
+const checkSchema = z.object({
+  correct: z.boolean(),
+  problem: z.string().nullable().optional(),
+});
+
+// What both the writer and the checker know about the question
+function questionContext({ fullQuestionText, referenceAnswer, markSchemeNotes, requirements, answerOptions }: SolutionInput): string {
+  const lines = [`Question:\n${fullQuestionText}`];
+  if (answerOptions) {
+    lines.push(`Options:\n${answerOptions.map((option) => `${option.label}: ${option.text}`).join("\n")}`);
+  }
+  if (requirements) lines.push(`The answer must be given ${requirements}.`);
+  if (referenceAnswer) {
+    lines.push(`Reference answer from the mark scheme: ${referenceAnswer}${markSchemeNotes ? `\nMark scheme notes: ${markSchemeNotes}` : ""}`);
+  }
+  return lines.join("\n\n");
+}
+
+// The question with its figures attached, so every step can use what they show
+function questionMessage(text: string, { imageUrls }: FigureContext): ChatMessage {
+  if (imageUrls.length === 0) return { role: "user", content: text };
+  return {
+    role: "user",
+    content: [
+      { type: "text", text: `${text}\n\nThe attached image(s) show the figure, chart, table or diagram this question refers to.` },
+      ...imageUrls.map((url) => ({ type: "image_url" as const, image_url: { url } })),
+    ],
+  };
+}
+
+/**
+ * Asks a fresh conversation to check a solution step by step, and against the
+ * reference answer when there is one.
+ */
+async function checkSolution(ai: AiClient, input: SolutionInput, solution: WorkedSolution) {
+  const messages: ChatMessage[] = [
+    {
+      role: "system",
+      content: `You are an expert math teacher checking a worked solution before students see it.
+
+Your task:
+1. Solve the question yourself first
+2. Check every step of the solution below: each must follow from the one before, with correct arithmetic and a valid method
+3. Check the final answer is correct${input.referenceAnswer ? " and agrees with the mark scheme's reference answer" : ""}, and is given in the form the question asks for
+4. Minor wording or notation choices are fine; only reject a solution that is wrong or skips a step a student would need
+
+Respond in this exact JSON format:
+{
+  "correct": true or false,
+  "problem": "The first thing that is wrong, or null"
+}`,
+    },
+    questionMessage(
+      `${questionContext(input)}
+
+Worked solution:
+${solution.steps.map((step, index) => `${index + 1}. ${step}`).join("\n")}
+
+Final answer: ${solution.finalAnswer}`,
+      input.figureContext
+    ),
+  ];
+
+  return await completeJson(ai, messages, checkSchema);
+}
+
+/**
+ * Writes a step-by-step solution and has it checked independently. A rejected
+ * solution is rewritten with the checker's objection; returns null when no
+ * solution passes, so nothing unchecked is ever shown or cached.
+ */
+export async function writeSolution(ai: AiClient, input: SolutionInput): Promise<WorkedSolution | null> {
+  const conversation: ChatMessage[] = [
+    {
+      role: "system",
+      content: `You are an expert math teacher writing a model solution for a student who has already attempted this question.
+
+Your task:
+1. Solve the question completely, one step per line of working, in the order a student would write them
+2. Say briefly what each step does before doing it, e.g. "Expand the brackets: ..."
+3. Show every calculation; do not skip steps a student would need
+4. End with the final answer${input.referenceAnswer ? ", which must agree with the mark scheme's reference answer" : ""}, given in the form the question asks for
+
+Rules:
+- ${LATEX_RULE} (escape each backslash inside the JSON string)
+
+Respond in this exact JSON format:
+{
+  "steps": ["First step", "Second step", "..."],
+  "finalAnswer": "The final answer"
+}`,
+    },
+    questionMessage(questionContext(input), input.figureContext),
+  ];
+
+  for (let attempt = 0; attempt <= REWRITE_ATTEMPTS; attempt++) {
+    const solution = await completeJson(ai, conversation, solutionSchema);
+    const check = await checkSolution(ai, input, solution);
+    if (check.correct) return solution;
+
+    console.log(`Worked solution rejected by the check: ${check.problem ?? "no reason given"}`);
+    conversation.push(
+      { role: "assistant", content: JSON.stringify(solution) },
+      {
+        role: "user",
+        content: `A checker found a problem with this solution: ${check.problem ?? "it is not correct"}
+
+Write a corrected solution in the same JSON format.`,
+      }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,62 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// The paper's setting for revealing worked solutions
+export interface SolutionSettings {
+  enabled: boolean;
+  afterAttempts: number;
+}
+
+// The student's graded attempts at the question
+export interface AttemptCount {
+  wrong: number;
+  correct: boolean;
+}
+
+/**
+ * The solution settings of the paper a question belongs to, or null when the
+ * question does not exist.
+ */
+export async function loadSolutionSettings(supabase: SupabaseClient, questionId: string): Promise<SolutionSettings | null> {
+  const { data, error } = await supabase
+    .from("questions")
+    .select("documents(solutions_enabled, solution_after_attempts)")
+    .eq("id", questionId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading solution settings:", error);
+    throw error;
+  }
+  if (!data?.documents) return null;
+
+  const document = data.documents as unknown as { solutions_enabled: boolean; solution_after_attempts: number };
+  return { enabled: document.solutions_enabled, afterAttempts: document.solution_after_attempts };
+}
+
+export async function loadAttemptCount(supabase: SupabaseClient, userId: string, questionId: string): Promise<AttemptCount> {
+  const { data, error } = await supabase
+    .from("student_answers")
+    .select("is_correct")
+    .eq("user_id", userId)
+    .eq("question_id", questionId)
+    .eq("grading_status", "graded");
+
+  if (error) {
+    console.error("Error loading attempts:", error);
+    throw error;
+  }
+
+  const rows = data ?? [];
+  return {
+    wrong: rows.filter((row) => row.is_correct === false).length,
+    correct: rows.some((row) => row.is_correct === true),
+  };
+}
+
+/**
+ * A solution unlocks once the question is answered correctly, or after the
+ * paper's number of wrong attempts. Answers that could not be graded do not count.
+ */
+export function solutionUnlocked(settings: SolutionSettings, attempts: AttemptCount): boolean {
+  return settings.enabled && (attempts.correct || attempts.wrong >= settings.afterAttempts);
+}
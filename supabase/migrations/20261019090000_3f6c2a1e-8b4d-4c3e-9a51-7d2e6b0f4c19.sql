@@ -0,0 +1,4 @@
+-- Track how many pages a document was split into; questions record which page they came from
+ALTER TABLE public.documents ADD COLUMN page_count integer;
+
+ALTER TABLE public.questions ADD COLUMN IF NOT EXISTS page_number integer;
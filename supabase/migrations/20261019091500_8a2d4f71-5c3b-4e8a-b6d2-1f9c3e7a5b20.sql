@@ -0,0 +1,47 @@
+-- Figures, tables and diagrams cropped out of document pages during OCR
+CREATE TABLE public.figures (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  page_number INTEGER NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'figure' CHECK (kind IN ('figure', 'table', 'diagram', 'chart', 'graph')),
+  label TEXT,
+  bbox JSONB NOT NULL,
+  image_url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Which questions need which figures (a shared table can belong to several questions)
+CREATE TABLE public.question_figures (
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  figure_id UUID NOT NULL REFERENCES public.figures(id) ON DELETE CASCADE,
+  PRIMARY KEY (question_id, figure_id)
+);
+
+CREATE INDEX idx_figures_document_id ON public.figures(document_id);
+CREATE INDEX idx_question_figures_figure_id ON public.question_figures(figure_id);
+
+ALTER TABLE public.figures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.question_figures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read figures from own documents"
+ON public.figures
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = figures.document_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can read figure links from own documents"
+ON public.question_figures
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.figures
+    JOIN public.documents ON documents.id = figures.document_id
+    WHERE figures.id = question_figures.figure_id
+    AND documents.user_id = auth.uid()
+  )
+);
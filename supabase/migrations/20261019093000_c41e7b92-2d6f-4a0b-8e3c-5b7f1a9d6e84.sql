@@ -0,0 +1,4 @@
+-- Multi-part questions: parts point at the stem that holds their shared context
+ALTER TABLE public.questions ADD COLUMN parent_id UUID REFERENCES public.questions(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_questions_parent_id ON public.questions(parent_id);
@@ -0,0 +1,4 @@
+-- Mark allocations printed on the paper ("[3 marks]") and the paper total
+ALTER TABLE public.questions ADD COLUMN marks integer CHECK (marks IS NULL OR marks > 0);
+
+ALTER TABLE public.documents ADD COLUMN total_marks integer;
@@ -0,0 +1,9 @@
+-- Mark schemes / answer keys are uploaded as documents attached to a question paper
+ALTER TABLE public.documents
+ADD COLUMN kind text NOT NULL DEFAULT 'question_paper' CHECK (kind IN ('question_paper', 'mark_scheme'));
+
+ALTER TABLE public.documents ADD COLUMN paper_id UUID REFERENCES public.documents(id) ON DELETE CASCADE;
+
+-- Expected answer for each question, matched from the mark scheme by question number
+ALTER TABLE public.questions ADD COLUMN reference_answer text;
+ALTER TABLE public.questions ADD COLUMN mark_scheme_notes text;
@@ -0,0 +1,100 @@
+-- Background processing jobs for uploaded documents, with progress and retries
+CREATE TABLE public.processing_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  file_url TEXT NOT NULL,
+  stage TEXT NOT NULL DEFAULT 'uploaded' CHECK (stage IN ('uploaded', 'rasterizing', 'ocr', 'saving', 'completed', 'failed')),
+  current_page INTEGER,
+  total_pages INTEGER,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  last_error TEXT,
+  result JSONB,
+  run_after TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_processing_jobs_document_id ON public.processing_jobs(document_id);
+CREATE INDEX idx_processing_jobs_pending ON public.processing_jobs(run_after) WHERE stage NOT IN ('completed', 'failed');
+
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read jobs for own documents"
+ON public.processing_jobs
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = processing_jobs.document_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+-- Users can only queue fresh jobs; the worker (service role) moves them through the stages
+CREATE POLICY "Users can queue jobs for own documents"
+ON public.processing_jobs
+FOR INSERT
+WITH CHECK (
+  stage = 'uploaded'
+  AND attempts = 0
+  AND EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = processing_jobs.document_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+-- Live progress on the upload screen
+ALTER PUBLICATION supabase_realtime ADD TABLE public.processing_jobs;
+
+-- Claims the next runnable job (or a specific one). A job locked for longer than the
+-- edge function time limit is assumed to have crashed and can be claimed again.
+CREATE OR REPLACE FUNCTION public.claim_processing_job(p_job_id UUID DEFAULT NULL)
+RETURNS SETOF public.processing_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.processing_jobs
+  SET locked_at = now(), attempts = attempts + 1, updated_at = now()
+  WHERE id = (
+    SELECT id FROM public.processing_jobs
+    WHERE stage NOT IN ('completed', 'failed')
+      AND run_after <= now()
+      AND (locked_at IS NULL OR locked_at < now() - interval '10 minutes')
+      AND (p_job_id IS NULL OR id = p_job_id)
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_processing_job(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Pick up queued, retrying and abandoned jobs even when nobody is watching. The
+-- project URL and service role key are read from Vault, so each project sets its own
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'process-document-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/process-document',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.processing_jobs
+    WHERE stage NOT IN ('completed', 'failed')
+      AND run_after <= now()
+      AND (locked_at IS NULL OR locked_at < now() - interval '10 minutes')
+  );
+  $$
+);
@@ -0,0 +1,23 @@
+-- OCR confidence per question and a review step before questions go live
+ALTER TABLE public.questions ADD COLUMN confidence numeric CHECK (confidence IS NULL OR (confidence >= 0 AND confidence <= 1));
+ALTER TABLE public.questions ADD COLUMN review_notes text;
+
+-- Questions that are already live stay visible; new extractions start unapproved
+ALTER TABLE public.questions ADD COLUMN approved boolean NOT NULL DEFAULT true;
+ALTER TABLE public.questions ALTER COLUMN approved SET DEFAULT false;
+
+ALTER TABLE public.documents DROP CONSTRAINT IF EXISTS documents_status_check;
+ALTER TABLE public.documents
+ADD CONSTRAINT documents_status_check CHECK (status IN ('processing', 'needs_review', 'completed', 'failed'));
+
+-- The uploader approves questions (and fixes them) from the review screen
+CREATE POLICY "Users can update questions from own documents"
+ON public.questions
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = questions.document_id
+    AND documents.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,90 @@
+-- Editing extracted questions: fix OCR mistakes without re-uploading the document
+CREATE POLICY "Users can insert questions into own documents"
+ON public.questions
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = questions.document_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete questions from own documents"
+ON public.questions
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = questions.document_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+-- Writes the new display order in one statement. Runs as the caller, so the
+-- update policy above decides which questions can be moved.
+CREATE OR REPLACE FUNCTION public.reorder_questions(p_document_id UUID, p_question_ids UUID[])
+RETURNS void
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.questions
+  SET sort_order = ordered.position
+  FROM unnest(p_question_ids) WITH ORDINALITY AS ordered(id, position)
+  WHERE questions.id = ordered.id
+    AND questions.document_id = p_document_id;
+$$;
+
+-- Folds one question into another. Student answers, figure links and parts of the
+-- removed question move to the one that is kept, so no answer history is lost even
+-- though the answers belong to other users (hence SECURITY DEFINER and the owner check).
+CREATE OR REPLACE FUNCTION public.merge_questions(p_keep_id UUID, p_remove_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  keep_row public.questions;
+  remove_row public.questions;
+BEGIN
+  SELECT * INTO keep_row FROM public.questions WHERE id = p_keep_id;
+  SELECT * INTO remove_row FROM public.questions WHERE id = p_remove_id;
+
+  IF keep_row.id IS NULL OR remove_row.id IS NULL OR p_keep_id = p_remove_id
+    OR keep_row.document_id <> remove_row.document_id THEN
+    RAISE EXCEPTION 'Can only merge two different questions from the same document';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = keep_row.document_id
+    AND documents.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to edit this document';
+  END IF;
+
+  UPDATE public.questions
+  SET question_text = keep_row.question_text || E'\n' || remove_row.question_text,
+      marks = CASE
+        WHEN keep_row.marks IS NULL AND remove_row.marks IS NULL THEN NULL
+        ELSE COALESCE(keep_row.marks, 0) + COALESCE(remove_row.marks, 0)
+      END,
+      reference_answer = COALESCE(keep_row.reference_answer, remove_row.reference_answer),
+      -- Merging a part into its own stem must not leave it pointing at a deleted row
+      parent_id = CASE WHEN keep_row.parent_id = p_remove_id THEN remove_row.parent_id ELSE keep_row.parent_id END
+  WHERE id = p_keep_id;
+
+  UPDATE public.questions SET parent_id = p_keep_id WHERE parent_id = p_remove_id AND id <> p_keep_id;
+  UPDATE public.student_answers SET question_id = p_keep_id WHERE question_id = p_remove_id;
+
+  INSERT INTO public.question_figures (question_id, figure_id)
+  SELECT p_keep_id, figure_id FROM public.question_figures WHERE question_id = p_remove_id
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.questions WHERE id = p_remove_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_questions(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.reorder_questions(UUID, UUID[]) FROM PUBLIC, anon;
@@ -0,0 +1,3 @@
+-- Which path graded an answer: the deterministic equivalence checker or the model
+ALTER TABLE public.student_answers
+ADD COLUMN graded_by text CHECK (graded_by IN ('checker', 'model'));
@@ -0,0 +1,11 @@
+-- Rubric of method and accuracy marks per question, read from the mark scheme:
+-- [{"type": "method" | "accuracy", "marks": 1, "description": "..."}]
+ALTER TABLE public.questions
+ADD COLUMN rubric jsonb;
+
+-- Partial credit: the marks an answer earned, out of how many, and per rubric line
+-- ([{"type", "marks", "description", "awarded"}], in rubric order)
+ALTER TABLE public.student_answers
+ADD COLUMN score numeric,
+ADD COLUMN max_score numeric,
+ADD COLUMN rubric_marks jsonb;
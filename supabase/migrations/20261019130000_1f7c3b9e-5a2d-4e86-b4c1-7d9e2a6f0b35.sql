@@ -0,0 +1,40 @@
+-- Working submitted one numbered step at a time
+CREATE TABLE public.answer_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  answer_id UUID NOT NULL REFERENCES public.student_answers(id) ON DELETE CASCADE,
+  step_number INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  -- Set by grading: steps before the first wrong one are true, that step is false,
+  -- later steps are left null (not judged)
+  is_correct BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (answer_id, step_number)
+);
+
+ALTER TABLE public.answer_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read steps of own answers"
+ON public.answer_steps
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE student_answers.id = answer_steps.answer_id
+    AND student_answers.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can add steps to own answers"
+ON public.answer_steps
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE student_answers.id = answer_steps.answer_id
+    AND student_answers.user_id = auth.uid()
+  )
+);
+
+-- The step grading found the reasoning first goes wrong in (null when none, or no working)
+ALTER TABLE public.student_answers
+ADD COLUMN first_wrong_step INTEGER;
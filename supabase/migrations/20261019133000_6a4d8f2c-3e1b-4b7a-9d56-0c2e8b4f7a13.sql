@@ -0,0 +1,6 @@
+-- How an answer must be given, read from the question text during OCR
+-- ("give your answer to 3 significant figures", "in cm²")
+ALTER TABLE public.questions
+ADD COLUMN precision_type text CHECK (precision_type IN ('sig_figs', 'decimal_places')),
+ADD COLUMN precision_digits integer CHECK (precision_digits >= 0),
+ADD COLUMN answer_unit text;
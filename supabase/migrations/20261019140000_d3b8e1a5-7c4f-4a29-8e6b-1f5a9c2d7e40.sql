@@ -0,0 +1,8 @@
+-- The kind of answer a question expects, classified during OCR; null is free text.
+-- Multiple choice questions also keep their options: [{"label": "A", "text": "..."}]
+ALTER TABLE public.questions
+ADD COLUMN answer_type text CHECK (answer_type IN (
+  'multiple_choice', 'numeric', 'expression', 'equation', 'inequality',
+  'coordinates', 'vector', 'set', 'true_false'
+)),
+ADD COLUMN answer_options jsonb;
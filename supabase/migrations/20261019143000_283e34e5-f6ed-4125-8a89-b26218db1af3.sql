@@ -0,0 +1,40 @@
+-- Photos of handwritten working attached to an attempt (stored in the documents bucket)
+CREATE TABLE public.answer_photos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  answer_id UUID NOT NULL REFERENCES public.student_answers(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  image_url TEXT NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.answer_photos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read photos of own answers"
+ON public.answer_photos
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE student_answers.id = answer_photos.answer_id
+    AND student_answers.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can add photos to own answers"
+ON public.answer_photos
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE student_answers.id = answer_photos.answer_id
+    AND student_answers.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_answer_photos_answer_id ON public.answer_photos(answer_id);
+
+-- What grading read from the photos, and whether the student agreed with it
+ALTER TABLE public.student_answers
+ADD COLUMN working_transcription TEXT,
+ADD COLUMN transcription_confirmed BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,10 @@
+-- Whether grading finished: a reply from the model that could not be used leaves
+-- the answer 'failed' (never marked wrong) with the reason in grading_error.
+-- Answers graded before this column existed count as graded.
+ALTER TABLE public.student_answers
+ADD COLUMN grading_status TEXT NOT NULL DEFAULT 'graded'
+  CHECK (grading_status IN ('pending', 'graded', 'failed')),
+ADD COLUMN grading_error TEXT;
+
+ALTER TABLE public.student_answers
+ALTER COLUMN grading_status SET DEFAULT 'pending';
@@ -0,0 +1,215 @@
+-- Audit trail: what each grading of an answer was shown and what came back
+CREATE TABLE public.grading_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  answer_id UUID NOT NULL REFERENCES public.student_answers(id) ON DELETE CASCADE,
+  graded_by TEXT NOT NULL CHECK (graded_by IN ('checker', 'model')),
+  -- Null when the equivalence checker decided without the model
+  model TEXT,
+  prompt_version TEXT,
+  -- Every message sent, including repair requests, with image URLs in place
+  prompt JSONB,
+  raw_response TEXT,
+  -- The evaluation that was stored, or null when grading failed
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_grading_runs_answer_id ON public.grading_runs(answer_id);
+
+ALTER TABLE public.grading_runs ENABLE ROW LEVEL SECURITY;
+
+-- Prompts contain the reference answer, so only the paper's owner can read them
+CREATE POLICY "Owners can read grading runs for own documents"
+ON public.grading_runs
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    JOIN public.questions ON questions.id = student_answers.question_id
+    JOIN public.documents ON documents.id = questions.document_id
+    WHERE student_answers.id = grading_runs.answer_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+-- A student disputing a grade, and the reviewer's decision
+CREATE TABLE public.grade_appeals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  answer_id UUID NOT NULL REFERENCES public.student_answers(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id),
+  comment TEXT NOT NULL CHECK (length(trim(comment)) > 0),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'confirmed', 'overturned')),
+  reviewer_id UUID REFERENCES auth.users(id),
+  reviewer_comment TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open appeal per answer at a time
+CREATE UNIQUE INDEX idx_grade_appeals_open ON public.grade_appeals(answer_id) WHERE status = 'open';
+
+ALTER TABLE public.grade_appeals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own appeals"
+ON public.grade_appeals
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Owners can read appeals for own documents"
+ON public.grade_appeals
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    JOIN public.questions ON questions.id = student_answers.question_id
+    JOIN public.documents ON documents.id = questions.document_id
+    WHERE student_answers.id = grade_appeals.answer_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+-- Students open appeals on their own graded answers; decisions go through resolve_grade_appeal()
+CREATE POLICY "Users can appeal own answers"
+ON public.grade_appeals
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND status = 'open'
+  AND reviewer_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE student_answers.id = grade_appeals.answer_id
+    AND student_answers.user_id = auth.uid()
+    AND student_answers.grading_status = 'graded'
+  )
+);
+
+-- History of an answer's grade: the first grading, then every change made on appeal
+CREATE TABLE public.grade_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  answer_id UUID NOT NULL REFERENCES public.student_answers(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('grading', 'appeal')),
+  appeal_id UUID REFERENCES public.grade_appeals(id) ON DELETE SET NULL,
+  -- Null for changes made by grading
+  changed_by UUID REFERENCES auth.users(id),
+  previous_is_correct BOOLEAN,
+  previous_score NUMERIC,
+  is_correct BOOLEAN,
+  score NUMERIC,
+  max_score NUMERIC,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_grade_changes_answer_id ON public.grade_changes(answer_id);
+
+ALTER TABLE public.grade_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read grade history of own answers"
+ON public.grade_changes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE student_answers.id = grade_changes.answer_id
+    AND student_answers.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Owners can read grade history for own documents"
+ON public.grade_changes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    JOIN public.questions ON questions.id = student_answers.question_id
+    JOIN public.documents ON documents.id = questions.document_id
+    WHERE student_answers.id = grade_changes.answer_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+-- A grade a reviewer overturned
+ALTER TABLE public.student_answers DROP CONSTRAINT student_answers_graded_by_check;
+ALTER TABLE public.student_answers
+ADD CONSTRAINT student_answers_graded_by_check CHECK (graded_by IN ('checker', 'model', 'reviewer'));
+
+-- Confirms or overturns an open appeal. Only the owner of the paper may decide.
+-- Overturning sets the new score (is_correct follows from it when the answer is
+-- scored) and records the change in grade_changes.
+CREATE OR REPLACE FUNCTION public.resolve_grade_appeal(
+  p_appeal_id UUID,
+  p_overturn BOOLEAN,
+  p_is_correct BOOLEAN DEFAULT NULL,
+  p_score NUMERIC DEFAULT NULL,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appeal public.grade_appeals;
+  v_answer public.student_answers;
+  v_is_correct BOOLEAN;
+BEGIN
+  SELECT * INTO v_appeal FROM public.grade_appeals WHERE id = p_appeal_id FOR UPDATE;
+  IF NOT FOUND OR v_appeal.status <> 'open' THEN
+    RAISE EXCEPTION 'This appeal is not open';
+  END IF;
+
+  SELECT student_answers.* INTO v_answer
+  FROM public.student_answers
+  JOIN public.questions ON questions.id = student_answers.question_id
+  JOIN public.documents ON documents.id = questions.document_id
+  WHERE student_answers.id = v_appeal.answer_id
+  AND documents.user_id = auth.uid();
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the owner of the paper can review its appeals';
+  END IF;
+
+  UPDATE public.grade_appeals
+  SET status = CASE WHEN p_overturn THEN 'overturned' ELSE 'confirmed' END,
+      reviewer_id = auth.uid(),
+      reviewer_comment = NULLIF(trim(p_comment), ''),
+      resolved_at = now()
+  WHERE id = p_appeal_id;
+
+  IF NOT p_overturn THEN
+    RETURN;
+  END IF;
+
+  IF p_score IS NOT NULL AND (p_score < 0 OR (v_answer.max_score IS NOT NULL AND p_score > v_answer.max_score)) THEN
+    RAISE EXCEPTION 'Score must be between 0 and %', v_answer.max_score;
+  END IF;
+
+  v_is_correct := CASE
+    WHEN p_score IS NOT NULL AND v_answer.max_score IS NOT NULL THEN p_score = v_answer.max_score
+    ELSE p_is_correct
+  END;
+  IF v_is_correct IS NULL THEN
+    RAISE EXCEPTION 'An overturned grade needs a score or a verdict';
+  END IF;
+
+  UPDATE public.student_answers
+  SET is_correct = v_is_correct,
+      score = COALESCE(p_score, CASE WHEN v_is_correct THEN max_score ELSE 0 END),
+      -- The per-line marks were the grader's; the reviewer's score replaces them
+      rubric_marks = NULL,
+      graded_by = 'reviewer'
+  WHERE id = v_answer.id;
+
+  INSERT INTO public.grade_changes (
+    answer_id, source, appeal_id, changed_by,
+    previous_is_correct, previous_score, is_correct, score, max_score, note
+  )
+  VALUES (
+    v_answer.id, 'appeal', p_appeal_id, auth.uid(),
+    v_answer.is_correct, v_answer.score, v_is_correct,
+    COALESCE(p_score, CASE WHEN v_is_correct THEN v_answer.max_score ELSE 0 END),
+    v_answer.max_score, NULLIF(trim(p_comment), '')
+  );
+END;
+$$;
@@ -0,0 +1,25 @@
+-- Model evaluations reused for later answers that are the same once normalized
+CREATE TABLE public.evaluation_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  -- Hash of the question text, stems, mark scheme and prompt version it was graded against
+  question_version TEXT NOT NULL,
+  -- The answer and working in canonical form
+  answer_key TEXT NOT NULL,
+  evaluation JSONB NOT NULL,
+  model TEXT,
+  -- The answer the evaluation was first made for
+  source_answer_id UUID REFERENCES public.student_answers(id) ON DELETE SET NULL,
+  hit_count INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE UNIQUE INDEX idx_evaluation_cache_key ON public.evaluation_cache(question_id, question_version, answer_key);
+
+-- Read and written only by evaluate-answer with the service role
+ALTER TABLE public.evaluation_cache ENABLE ROW LEVEL SECURITY;
+
+-- Gradings that reused a cached evaluation instead of calling the model
+ALTER TABLE public.grading_runs
+ADD COLUMN from_cache BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,57 @@
+-- Hints a student has been given, so they survive a reload and are not repeated
+CREATE TABLE public.hints (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  hint_number INT NOT NULL CHECK (hint_number >= 1),
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, question_id, hint_number)
+);
+
+ALTER TABLE public.hints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own hints"
+ON public.hints
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can save own hints"
+ON public.hints
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Owners can read hints for own documents"
+ON public.hints
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.questions
+    JOIN public.documents ON documents.id = questions.document_id
+    WHERE questions.id = hints.question_id
+    AND documents.user_id = auth.uid()
+  )
+);
+
+-- Hints used per student and question, and whether the student has since answered
+-- correctly. Runs with the reader's permissions: students see their own rows,
+-- owners see every student on their papers.
+CREATE VIEW public.hint_usage
+WITH (security_invoker = true)
+AS
+SELECT
+  hints.user_id,
+  hints.question_id,
+  questions.document_id,
+  count(*)::INT AS hints_used,
+  min(hints.created_at) AS first_hint_at,
+  max(hints.created_at) AS last_hint_at,
+  EXISTS (
+    SELECT 1 FROM public.student_answers
+    WHERE student_answers.question_id = hints.question_id
+    AND student_answers.user_id = hints.user_id
+    AND student_answers.is_correct = true
+  ) AS answered_correctly
+FROM public.hints
+JOIN public.questions ON questions.id = hints.question_id
+GROUP BY hints.user_id, hints.question_id, questions.document_id;
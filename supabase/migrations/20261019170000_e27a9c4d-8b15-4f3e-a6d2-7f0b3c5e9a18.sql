@@ -0,0 +1,8 @@
+-- Hints come in levels: nudge, relevant concept, first step, worked next step
+ALTER TABLE public.hints
+ADD COLUMN level TEXT CHECK (level IN ('nudge', 'concept', 'first_step', 'next_step'));
+
+-- Hints taken before an answer cost a share of its marks; score is what is left
+ALTER TABLE public.student_answers
+ADD COLUMN hints_used INT NOT NULL DEFAULT 0,
+ADD COLUMN hint_penalty NUMERIC NOT NULL DEFAULT 0;
@@ -0,0 +1,56 @@
+-- A student's conversation with the tutor about one question, kept so it can be picked up later
+CREATE TABLE public.tutor_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, question_id)
+);
+
+CREATE TABLE public.tutor_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.tutor_conversations(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('student', 'tutor')),
+  content TEXT NOT NULL CHECK (length(trim(content)) > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_tutor_messages_conversation_id ON public.tutor_messages(conversation_id, created_at);
+
+ALTER TABLE public.tutor_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tutor_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own tutor conversations"
+ON public.tutor_conversations
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can start own tutor conversations"
+ON public.tutor_conversations
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can read own tutor messages"
+ON public.tutor_messages
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.tutor_conversations
+    WHERE tutor_conversations.id = tutor_messages.conversation_id
+    AND tutor_conversations.user_id = auth.uid()
+  )
+);
+
+-- Students write their own side; the tutor's replies are saved by tutor-chat
+CREATE POLICY "Users can send messages in own tutor conversations"
+ON public.tutor_messages
+FOR INSERT
+WITH CHECK (
+  role = 'student'
+  AND EXISTS (
+    SELECT 1 FROM public.tutor_conversations
+    WHERE tutor_conversations.id = tutor_messages.conversation_id
+    AND tutor_conversations.user_id = auth.uid()
+  )
+);
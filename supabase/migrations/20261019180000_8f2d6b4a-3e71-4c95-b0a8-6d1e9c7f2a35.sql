@@ -0,0 +1,19 @@
+-- Whether students can reveal a paper's worked solutions, and after how many wrong attempts
+ALTER TABLE public.documents
+ADD COLUMN solutions_enabled BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN solution_after_attempts INT NOT NULL DEFAULT 3 CHECK (solution_after_attempts >= 1);
+
+-- One checked step-by-step solution per question, generated the first time a student unlocks it
+CREATE TABLE public.worked_solutions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  question_id UUID NOT NULL UNIQUE REFERENCES public.questions(id) ON DELETE CASCADE,
+  -- Hash of the question text, stems, mark scheme and prompt version it was written for
+  question_version TEXT NOT NULL,
+  steps JSONB NOT NULL,
+  final_answer TEXT NOT NULL,
+  model TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Read and written only by worked-solution with the service role, which checks the solution is unlocked
+ALTER TABLE public.worked_solutions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,3 @@
+-- Hints are saved by get-hint, which counts them to enforce the limit and the mark
+-- penalty. Students inserting their own rows (or skipping the insert) would get around both.
+DROP POLICY "Users can save own hints" ON public.hints;
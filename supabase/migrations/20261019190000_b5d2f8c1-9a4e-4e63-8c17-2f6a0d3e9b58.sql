@@ -0,0 +1,127 @@
+-- merge_questions also merges the mark scheme. Notes and rubric lines of both
+-- questions are kept, and answers or requirements that disagree block the merge
+-- rather than one of them being dropped silently. Students' hints and tutor
+-- conversations move across with their answers instead of being cascade-deleted.
+CREATE OR REPLACE FUNCTION public.merge_questions(p_keep_id UUID, p_remove_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  keep_row public.questions;
+  remove_row public.questions;
+BEGIN
+  SELECT * INTO keep_row FROM public.questions WHERE id = p_keep_id;
+  SELECT * INTO remove_row FROM public.questions WHERE id = p_remove_id;
+
+  IF keep_row.id IS NULL OR remove_row.id IS NULL OR p_keep_id = p_remove_id THEN
+    RAISE EXCEPTION 'Can only merge two different questions';
+  END IF;
+
+  IF keep_row.document_id <> remove_row.document_id THEN
+    RAISE EXCEPTION 'Can only merge questions from the same document';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE documents.id = keep_row.document_id
+    AND documents.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to edit this document';
+  END IF;
+
+  -- One question can only be graded against one answer, rounding, unit and answer type
+  IF keep_row.reference_answer IS DISTINCT FROM remove_row.reference_answer
+    AND keep_row.reference_answer IS NOT NULL AND remove_row.reference_answer IS NOT NULL THEN
+    RAISE EXCEPTION 'Both questions have a different answer in the mark scheme; clear one of them before merging';
+  END IF;
+
+  IF (keep_row.precision_type, keep_row.precision_digits) IS DISTINCT FROM (remove_row.precision_type, remove_row.precision_digits)
+    AND keep_row.precision_type IS NOT NULL AND remove_row.precision_type IS NOT NULL THEN
+    RAISE EXCEPTION 'Both questions ask for different rounding; clear one of them before merging';
+  END IF;
+
+  IF keep_row.answer_unit IS DISTINCT FROM remove_row.answer_unit
+    AND keep_row.answer_unit IS NOT NULL AND remove_row.answer_unit IS NOT NULL THEN
+    RAISE EXCEPTION 'Both questions ask for a different unit; clear one of them before merging';
+  END IF;
+
+  IF (keep_row.answer_type, keep_row.answer_options) IS DISTINCT FROM (remove_row.answer_type, remove_row.answer_options)
+    AND keep_row.answer_type IS NOT NULL AND remove_row.answer_type IS NOT NULL THEN
+    RAISE EXCEPTION 'Both questions expect a different type of answer; clear one of them before merging';
+  END IF;
+
+  UPDATE public.questions
+  SET question_text = keep_row.question_text || E'\n' || remove_row.question_text,
+      marks = CASE
+        WHEN keep_row.marks IS NULL AND remove_row.marks IS NULL THEN NULL
+        ELSE COALESCE(keep_row.marks, 0) + COALESCE(remove_row.marks, 0)
+      END,
+      reference_answer = COALESCE(keep_row.reference_answer, remove_row.reference_answer),
+      mark_scheme_notes = NULLIF(concat_ws(E'\n', keep_row.mark_scheme_notes, remove_row.mark_scheme_notes), ''),
+      -- The marks are added up, so the rubric lines are too
+      rubric = CASE
+        WHEN keep_row.rubric IS NULL THEN remove_row.rubric
+        WHEN remove_row.rubric IS NULL THEN keep_row.rubric
+        ELSE keep_row.rubric || remove_row.rubric
+      END,
+      precision_type = COALESCE(keep_row.precision_type, remove_row.precision_type),
+      precision_digits = CASE WHEN keep_row.precision_type IS NOT NULL THEN keep_row.precision_digits ELSE remove_row.precision_digits END,
+      answer_unit = COALESCE(keep_row.answer_unit, remove_row.answer_unit),
+      answer_type = COALESCE(keep_row.answer_type, remove_row.answer_type),
+      answer_options = CASE WHEN keep_row.answer_type IS NOT NULL THEN keep_row.answer_options ELSE remove_row.answer_options END,
+      review_notes = NULLIF(concat_ws(E'\n', keep_row.review_notes, remove_row.review_notes), ''),
+      -- Merging a part into its own stem must not leave it pointing at a deleted row
+      parent_id = CASE WHEN keep_row.parent_id = p_remove_id THEN remove_row.parent_id ELSE keep_row.parent_id END
+  WHERE id = p_keep_id;
+
+  UPDATE public.questions SET parent_id = p_keep_id WHERE parent_id = p_remove_id AND id <> p_keep_id;
+  UPDATE public.student_answers SET question_id = p_keep_id WHERE question_id = p_remove_id;
+
+  -- Hints are numbered per student and question: the moved ones come after any the
+  -- student already had on the kept question, so the history and penalties survive
+  UPDATE public.hints AS moved
+  SET question_id = p_keep_id,
+      hint_number = moved.hint_number + COALESCE((
+        SELECT max(kept.hint_number) FROM public.hints AS kept
+        WHERE kept.question_id = p_keep_id AND kept.user_id = moved.user_id
+      ), 0)
+  WHERE moved.question_id = p_remove_id;
+
+  -- One conversation per student and question: where a student talked about both,
+  -- the messages join the kept conversation (they are read in time order)
+  UPDATE public.tutor_messages
+  SET conversation_id = kept.id
+  FROM public.tutor_conversations AS removed
+  JOIN public.tutor_conversations AS kept
+    ON kept.user_id = removed.user_id AND kept.question_id = p_keep_id
+  WHERE removed.question_id = p_remove_id
+    AND tutor_messages.conversation_id = removed.id;
+
+  UPDATE public.tutor_conversations AS kept
+  SET updated_at = now()
+  WHERE kept.question_id = p_keep_id
+    AND EXISTS (
+      SELECT 1 FROM public.tutor_conversations AS removed
+      WHERE removed.question_id = p_remove_id AND removed.user_id = kept.user_id
+    );
+
+  DELETE FROM public.tutor_conversations AS removed
+  WHERE removed.question_id = p_remove_id
+    AND EXISTS (
+      SELECT 1 FROM public.tutor_conversations AS kept
+      WHERE kept.question_id = p_keep_id AND kept.user_id = removed.user_id
+    );
+
+  UPDATE public.tutor_conversations SET question_id = p_keep_id WHERE question_id = p_remove_id;
+
+  INSERT INTO public.question_figures (question_id, figure_id)
+  SELECT p_keep_id, figure_id FROM public.question_figures WHERE question_id = p_remove_id
+  ON CONFLICT DO NOTHING;
+
+  DELETE FROM public.questions WHERE id = p_remove_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_questions(UUID, UUID) FROM PUBLIC, anon;
@@ -0,0 +1,40 @@
+-- A mark scheme may only be attached to a question paper of the same owner: the
+-- worker writes its answers onto the paper's questions with the service role.
+-- The baseline's public insert and update policies would let anyone around that,
+-- so they are replaced by owner-only ones.
+DROP POLICY IF EXISTS "Allow public insert access to documents" ON public.documents;
+DROP POLICY IF EXISTS "Allow public update access to documents" ON public.documents;
+DROP POLICY IF EXISTS "Users can insert own documents" ON public.documents;
+
+CREATE POLICY "Users can insert own documents"
+ON public.documents
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    paper_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.documents AS paper
+      WHERE paper.id = documents.paper_id
+      AND paper.user_id = auth.uid()
+      AND paper.kind = 'question_paper'
+    )
+  )
+);
+
+CREATE POLICY "Users can update own documents"
+ON public.documents
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    paper_id IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.documents AS paper
+      WHERE paper.id = documents.paper_id
+      AND paper.user_id = auth.uid()
+      AND paper.kind = 'question_paper'
+    )
+  )
+);
@@ -0,0 +1,23 @@
+-- Grades are written by evaluate-answer (service role) and appeals by
+-- resolve_grade_appeal. The baseline's public insert and update policies let any
+-- client write is_correct, score, hint_penalty or grading_status, and with them
+-- unlock worked solutions without a real attempt. Students can now only submit
+-- their own answers and confirm the transcription of their working.
+DROP POLICY "Allow public insert access to student_answers" ON public.student_answers;
+DROP POLICY "Allow public update access to student_answers" ON public.student_answers;
+
+CREATE POLICY "Users can submit own answers"
+ON public.student_answers
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own answers"
+ON public.student_answers
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Policies pick the rows; these grants pick the columns a client may write
+REVOKE INSERT, UPDATE ON public.student_answers FROM anon, authenticated;
+GRANT INSERT (question_id, student_answer, user_id) ON public.student_answers TO authenticated;
+GRANT UPDATE (transcription_confirmed) ON public.student_answers TO authenticated;